@@ -10,12 +10,24 @@ export const requestUrl = vi.fn();
 // --- Notice mock ---
 // A vi.fn-backed constructor so tests can assert on shown notices via
 // vi.mocked(Notice).mock.calls (cleared by vi.clearAllMocks in beforeEach).
+// `messages` records every message a notice has shown, so a notice updated in
+// place (progress) can be asserted on via mock.instances.
 export const Notice = vi.fn().mockImplementation(function (
-	this: { message: string },
+	this: { message: string; messages: string[]; hidden: boolean; setMessage(m: string): unknown; hide(): void },
 	message: string,
 	_timeout?: number
 ) {
 	this.message = message;
+	this.messages = [message];
+	this.hidden = false;
+	this.setMessage = (m: string) => {
+		this.message = m;
+		this.messages.push(m);
+		return this;
+	};
+	this.hide = () => {
+		this.hidden = true;
+	};
 });
 
 // --- TAbstractFile / TFile / TFolder ---
@@ -60,6 +72,9 @@ export class MarkdownView {
 export class Workspace {
 	getActiveViewOfType = vi.fn().mockReturnValue(null);
 	getActiveFile = vi.fn().mockReturnValue(null);
+	getLeavesOfType = vi.fn(() => [] as unknown[]);
+	getRightLeaf = vi.fn();
+	revealLeaf = vi.fn();
 	on = vi.fn();
 	onLayoutReady = vi.fn().mockImplementation((cb: () => void) => cb());
 }
@@ -76,6 +91,7 @@ export class FileManager {
 // --- MetadataCache mock ---
 export class MetadataCache {
 	getFileCache = vi.fn().mockReturnValue(null);
+	getFirstLinkpathDest = vi.fn().mockReturnValue(null);
 }
 
 // --- Setting mock ---
@@ -106,11 +122,15 @@ function dropSettingsFor(containerEl: unknown): void {
 export class Setting {
 	settingEl = createMockEl();
 	controlEl = createMockEl();
+	descEl = createMockEl();
 	containerEl: unknown;
 	name = "";
+	desc = "";
 	texts: TextComponent[] = [];
+	textAreas: TextComponent[] = [];
 	toggles: ToggleComponent[] = [];
 	buttons: ButtonComponent[] = [];
+	extraButtons: ExtraButtonComponent[] = [];
 	dropdowns: DropdownComponent[] = [];
 	constructor(containerEl: unknown) {
 		this.containerEl = containerEl;
@@ -120,7 +140,8 @@ export class Setting {
 		this.name = name;
 		return this;
 	}
-	setDesc(_desc: string) {
+	setDesc(desc: string) {
+		this.desc = desc;
 		return this;
 	}
 	setHeading() {
@@ -132,6 +153,12 @@ export class Setting {
 		cb(text);
 		return this;
 	}
+	addTextArea(cb: (text: TextComponent) => void) {
+		const text = new TextComponent();
+		this.textAreas.push(text);
+		cb(text);
+		return this;
+	}
 	addToggle(cb: (toggle: ToggleComponent) => void) {
 		const toggle = new ToggleComponent();
 		this.toggles.push(toggle);
@@ -144,6 +171,12 @@ export class Setting {
 		cb(btn);
 		return this;
 	}
+	addExtraButton(cb: (btn: ExtraButtonComponent) => void) {
+		const btn = new ExtraButtonComponent();
+		this.extraButtons.push(btn);
+		cb(btn);
+		return this;
+	}
 	addDropdown(cb: (dd: DropdownComponent) => void) {
 		const dd = new DropdownComponent();
 		this.dropdowns.push(dd);
@@ -183,6 +216,8 @@ class TextComponent {
 	}
 }
 
+export class SearchComponent extends TextComponent {}
+
 class ToggleComponent {
 	value = false;
 	disabled = false;
@@ -206,7 +241,7 @@ class ToggleComponent {
 	}
 }
 
-class DropdownComponent {
+export class DropdownComponent {
 	value = "";
 	disabled = false;
 	options: string[] = [];
@@ -266,6 +301,62 @@ class ButtonComponent {
 	}
 }
 
+class ExtraButtonComponent {
+	icon = "";
+	private clickCb: (() => void) | null = null;
+	setIcon(icon: string) {
+		this.icon = icon;
+		return this;
+	}
+	setTooltip(_tooltip: string) {
+		return this;
+	}
+	onClick(cb: () => void) {
+		this.clickCb = cb;
+		return this;
+	}
+	/** Test helper: simulate the user clicking. */
+	click() {
+		this.clickCb?.();
+	}
+}
+
+// --- Menu mock ---
+// Records its items so tests can read their titles and run their click handlers.
+export class MenuItem {
+	title = "";
+	icon = "";
+	callback: (() => unknown) | null = null;
+	setTitle(title: string) {
+		this.title = title;
+		return this;
+	}
+	setIcon(icon: string) {
+		this.icon = icon;
+		return this;
+	}
+	onClick(callback: () => unknown) {
+		this.callback = callback;
+		return this;
+	}
+}
+
+export class Menu {
+	items: MenuItem[] = [];
+	addItem(cb: (item: MenuItem) => unknown) {
+		const item = new MenuItem();
+		cb(item);
+		this.items.push(item);
+		return this;
+	}
+	addSeparator() {
+		return this;
+	}
+	showAtMouseEvent(_evt: unknown) {
+		return this;
+	}
+}
+
 // --- Modal mock ---
 export class Modal {
 	app: unknown;
@@ -279,6 +370,16 @@ export class Modal {
 	onClose() {}
 }
 
+// --- ItemView mock ---
+export class ItemView {
+	leaf: unknown;
+	contentEl = createMockEl();
+	constructor(leaf: unknown) {
+		this.leaf = leaf;
+	}
+	registerDomEvent = vi.fn();
+}
+
 // --- PluginSettingTab mock ---
 export class PluginSettingTab {
 	app: unknown;
@@ -311,6 +412,7 @@ export class Plugin {
 	registerInterval = vi.fn();
 	registerDomEvent = vi.fn();
 	registerObsidianProtocolHandler = vi.fn();
+	registerView = vi.fn();
 
 	async loadData(): Promise<unknown> {
 		return this._data;
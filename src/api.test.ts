@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { requestUrl } from "obsidian";
-import { publishNote, listDocuments, deleteDocument, uploadImage, trialPublish, trialDeleteDocument, getPortalUrl, getPageSettings, updatePageSettings, setClientVersion } from "./api";
+import { RateLimitError, publishNote, listDocuments, deleteDocument, uploadAttachment, trialPublish, trialDeleteDocument, getPortalUrl, getPageSettings, updatePageSettings, setClientVersion, imageUrlExists } from "./api";
 
 const mockRequestUrl = vi.mocked(requestUrl);
 
@@ -147,6 +147,31 @@ describe("publishNote", () => {
 		);
 	});
 
+	it("throws a RateLimitError carrying Retry-After on 429", async () => {
+		mockRequestUrl.mockResolvedValue({
+			status: 429,
+			json: { error: "Publishing quota exceeded" },
+			headers: { "retry-after": "30" },
+			text: "",
+			arrayBuffer: new ArrayBuffer(0),
+		} as never);
+
+		const error = await publishNote("jb_key", "# Test", "Test").catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect((error as RateLimitError).retryAfterSeconds).toBe(30);
+
+		mockRequestUrl.mockResolvedValue({
+			status: 429,
+			json: { error: "Trial publish limit exceeded" },
+			headers: {},
+			text: "",
+			arrayBuffer: new ArrayBuffer(0),
+		} as never);
+		const trialError = await trialPublish("fp", "# Test", "Test").catch((e: unknown) => e);
+		expect(trialError).toBeInstanceOf(RateLimitError);
+		expect((trialError as RateLimitError).retryAfterSeconds).toBeNull();
+	});
+
 	it("throws on 413 payload too large", async () => {
 		mockRequestUrl.mockResolvedValue({
 			status: 413,
@@ -505,9 +530,9 @@ describe("trialDeleteDocument", () => {
 	});
 });
 
-// ---- uploadImage ----
+// ---- uploadAttachment ----
 
-describe("uploadImage", () => {
+describe("uploadAttachment", () => {
 	it("sends multipart form data with correct boundary and headers", async () => {
 		mockRequestUrl.mockResolvedValue({
 			status: 200,
@@ -518,7 +543,7 @@ describe("uploadImage", () => {
 		} as never);
 
 		const imageData = new ArrayBuffer(16);
-		const result = await uploadImage("jb_test_key", imageData, "photo.png", "image/png");
+		const result = await uploadAttachment("jb_test_key", imageData, "photo.png", "image/png");
 
 		expect(mockRequestUrl).toHaveBeenCalledOnce();
 		const call = mockRequestUrl.mock.calls[0][0];
@@ -547,8 +572,8 @@ describe("uploadImage", () => {
 		} as never);
 
 		await expect(
-			uploadImage("jb_key", new ArrayBuffer(0), "huge.png", "image/png")
-		).rejects.toThrow("Image upload: File exceeds 10MB limit");
+			uploadAttachment("jb_key", new ArrayBuffer(0), "huge.png", "image/png")
+		).rejects.toThrow("Upload: File exceeds 10MB limit");
 	});
 
 	it("throws on authentication error", async () => {
@@ -561,8 +586,8 @@ describe("uploadImage", () => {
 		} as never);
 
 		await expect(
-			uploadImage("bad_key", new ArrayBuffer(0), "img.png", "image/png")
-		).rejects.toThrow("Image upload: Invalid or expired API key");
+			uploadAttachment("bad_key", new ArrayBuffer(0), "img.png", "image/png")
+		).rejects.toThrow("Upload: Invalid or expired API key");
 	});
 
 	it("skips Authorization header when apiKey is empty", async () => {
@@ -574,7 +599,7 @@ describe("uploadImage", () => {
 			arrayBuffer: new ArrayBuffer(0),
 		} as never);
 
-		await uploadImage("", new ArrayBuffer(4), "anon.png", "image/png");
+		await uploadAttachment("", new ArrayBuffer(4), "anon.png", "image/png");
 
 		const call = mockRequestUrl.mock.calls[0][0];
 		expect(call.headers?.Authorization).toBeUndefined();
@@ -582,6 +607,35 @@ describe("uploadImage", () => {
 	});
 });
 
+// ---- imageUrlExists ----
+
+describe("imageUrlExists", () => {
+	it("sends a HEAD request and treats a 200 as valid", async () => {
+		mockRequestUrl.mockResolvedValue({ status: 200, headers: {} } as never);
+
+		expect(await imageUrlExists("https://share.jotbird.com/images/a.png")).toBe(true);
+		expect(mockRequestUrl.mock.calls[0][0]).toMatchObject({
+			url: "https://share.jotbird.com/images/a.png",
+			method: "HEAD",
+			throw: false,
+		});
+	});
+
+	it("treats 404 and 410 as gone", async () => {
+		mockRequestUrl.mockResolvedValue({ status: 404, headers: {} } as never);
+		expect(await imageUrlExists("https://share.jotbird.com/images/a.png")).toBe(false);
+		mockRequestUrl.mockResolvedValue({ status: 410, headers: {} } as never);
+		expect(await imageUrlExists("https://share.jotbird.com/images/a.png")).toBe(false);
+	});
+
+	it("treats other failures as still valid", async () => {
+		mockRequestUrl.mockResolvedValue({ status: 503, headers: {} } as never);
+		expect(await imageUrlExists("https://share.jotbird.com/images/a.png")).toBe(true);
+		mockRequestUrl.mockRejectedValue(new Error("offline"));
+		expect(await imageUrlExists("https://share.jotbird.com/images/a.png")).toBe(true);
+	});
+});
+
 // ---- setClientVersion ----
 
 describe("setClientVersion", () => {
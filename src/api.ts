@@ -4,14 +4,14 @@ import {
 	DocumentListResponse,
 	DeleteResponse,
 	ClaimResponse,
-	ImageUploadResponse,
+	AttachmentUploadResponse,
 	PagePublishSettings,
 	PageSettingsView,
 	PageSettingsPatch,
 } from "./types";
 
 const BASE_URL = "https://api.jotbird.com";
-const IMAGE_UPLOAD_URL = `${BASE_URL}/preview/upload-image`;
+const UPLOAD_URL = `${BASE_URL}/preview/upload-image`;
 // Default until the plugin sets the real manifest version at load via
 // setClientVersion(). The 0.0.0 sentinel makes an uninitialized client obvious
 // in the logs; it should never appear in production, where onload() sets it
@@ -48,12 +48,34 @@ async function apiRequest(params: RequestUrlParam): Promise<{ status: number; js
 	return { status: response.status, json, headers: response.headers ?? {} };
 }
 
-function assertOk(status: number, json: unknown, context: string): void {
+/**
+ * A 429 from the API. `retryAfterSeconds` is the server's Retry-After, when it
+ * sent one, so bulk actions can wait exactly that long before carrying on.
+ */
+export class RateLimitError extends Error {
+	retryAfterSeconds: number | null;
+
+	constructor(message: string, retryAfterSeconds: number | null) {
+		super(message);
+		this.name = "RateLimitError";
+		this.retryAfterSeconds = retryAfterSeconds;
+	}
+}
+
+function parseRetryAfter(responseHeaders: Record<string, string>): number | null {
+	const seconds = parseInt(responseHeaders["retry-after"] ?? responseHeaders["Retry-After"] ?? "", 10);
+	return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+function assertOk(status: number, json: unknown, context: string, responseHeaders: Record<string, string> = {}): void {
 	if (status >= 400) {
 		const errMsg =
 			json && typeof json === "object" && "error" in json
 				? (json as { error: string }).error
 				: `Request failed with status ${status}`;
+		if (status === 429) {
+			throw new RateLimitError(`${context}: ${errMsg}`, parseRetryAfter(responseHeaders));
+		}
 		throw new Error(`${context}: ${errMsg}`);
 	}
 }
@@ -88,7 +110,7 @@ export async function publishNote(
 		body.settings = settings;
 	}
 
-	const { status, json } = await apiRequest({
+	const { status, json, headers: responseHeaders } = await apiRequest({
 		url: `${BASE_URL}/cli/publish`,
 		method: "POST",
 		contentType: "application/json",
@@ -96,7 +118,7 @@ export async function publishNote(
 		headers: headers(apiKey),
 	});
 
-	assertOk(status, json, "Publish");
+	assertOk(status, json, "Publish", responseHeaders);
 	return json as PublishResponse;
 }
 
@@ -118,7 +140,7 @@ export async function deleteDocument(apiKey: string, slug: string, documentId?:
 	if (documentId) {
 		body.documentId = documentId;
 	}
-	const { status, json } = await apiRequest({
+	const { status, json, headers: responseHeaders } = await apiRequest({
 		url: `${BASE_URL}/cli/documents/remove`,
 		method: "POST",
 		contentType: "application/json",
@@ -126,7 +148,7 @@ export async function deleteDocument(apiKey: string, slug: string, documentId?:
 		headers: headers(apiKey),
 	});
 
-	assertOk(status, json, "Delete");
+	assertOk(status, json, "Delete", responseHeaders);
 	return json as DeleteResponse;
 }
 
@@ -221,8 +243,8 @@ export async function updatePageSettings(
 	// The PATCH spends from an hourly settings rate bucket (10/hour on the free
 	// tier), so render a 429 as what it is instead of a generic failure.
 	if (status === 429) {
-		const retryAfter = parseInt(responseHeaders["retry-after"] ?? responseHeaders["Retry-After"] ?? "", 10);
-		const minutes = Number.isFinite(retryAfter) ? Math.max(1, Math.ceil(retryAfter / 60)) : null;
+		const retryAfter = parseRetryAfter(responseHeaders);
+		const minutes = retryAfter !== null ? Math.max(1, Math.ceil(retryAfter / 60)) : null;
 		throw new Error(
 			minutes
 				? `Settings rate limit reached — try again in about ${minutes} minute${minutes === 1 ? "" : "s"}.`
@@ -247,7 +269,7 @@ export async function trialPublish(
 	if (editToken) body.editToken = editToken;
 	if (renderTitle) body.renderTitle = true;
 
-	const { status, json } = await apiRequest({
+	const { status, json, headers: responseHeaders } = await apiRequest({
 		url: `${BASE_URL}/trial/publish`,
 		method: "POST",
 		contentType: "application/json",
@@ -258,7 +280,7 @@ export async function trialPublish(
 		},
 	});
 
-	assertOk(status, json, "Publish");
+	assertOk(status, json, "Publish", responseHeaders);
 	return json as PublishResponse;
 }
 
@@ -267,7 +289,7 @@ export async function trialDeleteDocument(
 	editToken: string,
 	deviceFingerprint: string
 ): Promise<DeleteResponse> {
-	const { status, json } = await apiRequest({
+	const { status, json, headers: responseHeaders } = await apiRequest({
 		url: `${BASE_URL}/trial/documents/delete`,
 		method: "POST",
 		contentType: "application/json",
@@ -278,7 +300,7 @@ export async function trialDeleteDocument(
 		},
 	});
 
-	assertOk(status, json, "Delete");
+	assertOk(status, json, "Delete", responseHeaders);
 	return json as DeleteResponse;
 }
 
@@ -304,12 +326,17 @@ export async function getPortalUrl(apiKey: string): Promise<string> {
 	return resp.url;
 }
 
-export async function uploadImage(
+/**
+ * Upload a file for a published page and get back its public URL. The route
+ * (named for images, which it was first used for) takes a file of any type,
+ * stored and served as `mimeType`: images and other attachments alike.
+ */
+export async function uploadAttachment(
 	apiKey: string,
-	imageData: ArrayBuffer,
+	data: ArrayBuffer,
 	filename: string,
 	mimeType: string
-): Promise<ImageUploadResponse> {
+): Promise<AttachmentUploadResponse> {
 	// Build multipart form data manually since Obsidian's requestUrl
 	// doesn't support FormData directly
 	const boundary = "----JotBirdUpload" + Date.now().toString(36);
@@ -322,13 +349,13 @@ export async function uploadImage(
 	);
 	const epilogue = encoder.encode(`\r\n--${boundary}--\r\n`);
 
-	const body = new Uint8Array(preamble.length + imageData.byteLength + epilogue.length);
+	const body = new Uint8Array(preamble.length + data.byteLength + epilogue.length);
 	body.set(preamble, 0);
-	body.set(new Uint8Array(imageData), preamble.length);
-	body.set(epilogue, preamble.length + imageData.byteLength);
+	body.set(new Uint8Array(data), preamble.length);
+	body.set(epilogue, preamble.length + data.byteLength);
 
 	const { status, json } = await apiRequest({
-		url: IMAGE_UPLOAD_URL,
+		url: UPLOAD_URL,
 		method: "POST",
 		headers: {
 			...headers(apiKey),
@@ -337,6 +364,26 @@ export async function uploadImage(
 		body: body.buffer,
 	});
 
-	assertOk(status, json, "Image upload");
-	return json as ImageUploadResponse;
+	assertOk(status, json, "Upload");
+	return json as AttachmentUploadResponse;
+}
+
+/**
+ * Whether a previously uploaded image or file URL still serves. Only a definite
+ * "gone" (404/410) counts as invalid: anything else, including a network
+ * error, is treated as still valid, since a re-upload wouldn't get through
+ * either.
+ */
+export async function imageUrlExists(url: string): Promise<boolean> {
+	try {
+		const response = await requestUrl({
+			url,
+			method: "HEAD",
+			headers: { "User-Agent": userAgent },
+			throw: false,
+		});
+		return response.status !== 404 && response.status !== 410;
+	} catch {
+		return true;
+	}
 }
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { countPublishedByFolder, expiresWithin, noteBadge } from "./badges";
+import type { PublishedNote } from "./types";
+
+const NOW = Date.parse("2026-05-01T12:00:00Z");
+
+function note(fields: Partial<PublishedNote> = {}): PublishedNote {
+	return { slug: "s", url: "https://share.jotbird.com/s", publishedAt: "", ...fields };
+}
+
+describe("expiresWithin", () => {
+	it("counts pages expiring inside the window, and pages already expired", () => {
+		expect(expiresWithin(note({ expiresAt: "2026-05-05T00:00:00Z" }), 7, NOW)).toBe(true);
+		expect(expiresWithin(note({ expiresAt: "2026-04-20T00:00:00Z" }), 7, NOW)).toBe(true);
+		expect(expiresWithin(note({ expiresAt: "2026-06-01T00:00:00Z" }), 7, NOW)).toBe(false);
+	});
+
+	it("never flags pages that don't expire or whose expiry isn't known", () => {
+		expect(expiresWithin(note({ expiresAt: null }), 7, NOW)).toBe(false);
+		expect(expiresWithin(note(), 7, NOW)).toBe(false);
+	});
+});
+
+describe("noteBadge", () => {
+	it("reports the state alone for an account page", () => {
+		expect(noteBadge(note(), "up-to-date", 7, NOW)).toEqual({ kind: "published", details: ["published"] });
+		expect(noteBadge(note(), "modified", 7, NOW)).toEqual({
+			kind: "modified",
+			details: ["modified since publish"],
+		});
+	});
+
+	it("ranks expiring over anonymous over modified, and lists them all", () => {
+		const anonymous = note({ editToken: "tok", expiresAt: "2026-05-25T00:00:00Z" });
+		expect(noteBadge(anonymous, "modified", 7, NOW)).toEqual({
+			kind: "anonymous",
+			details: ["modified since publish", "anonymous"],
+		});
+		expect(noteBadge({ ...anonymous, expiresAt: "2026-05-03T00:00:00Z" }, "modified", 7, NOW)).toEqual({
+			kind: "expiring",
+			details: ["modified since publish", "anonymous", "expires 2026-05-03"],
+		});
+		expect(noteBadge(note({ expiresAt: "2026-04-30T00:00:00Z" }), "up-to-date", 7, NOW)).toEqual({
+			kind: "expiring",
+			details: ["published", "expired 2026-04-30"],
+		});
+	});
+
+	it("uses the configured warning window", () => {
+		const page = note({ expiresAt: "2026-05-25T00:00:00Z" });
+		expect(noteBadge(page, "up-to-date", 7, NOW).kind).toBe("published");
+		expect(noteBadge(page, "up-to-date", 30, NOW).kind).toBe("expiring");
+	});
+});
+
+describe("countPublishedByFolder", () => {
+	it("counts each note in every folder above it, but not at the root", () => {
+		const counts = countPublishedByFolder(["top.md", "Blog/a.md", "Blog/2026/b.md", "Blog/2026/c.md", "Work/d.md"]);
+		expect(Object.fromEntries(counts)).toEqual({ Blog: 3, "Blog/2026": 2, Work: 1 });
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * How a published note's state reads at a glance — in the status bar for the
+ * active note and as a badge in the file explorer. Everything here is worked
+ * out from the local record; nothing asks the server.
+ */
+
+import type { PublishedNote, PublishState } from "./types";
+
+/** The most pressing thing about a published note, most pressing last. */
+export type NoteBadgeKind = "published" | "modified" | "anonymous" | "expiring";
+
+export interface NoteBadge {
+	kind: NoteBadgeKind;
+	/** Everything that applies, display-ready, e.g. ["published", "anonymous", "expires 2026-05-01"]. */
+	details: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whether a page has expired or expires within `days`. */
+export function expiresWithin(note: PublishedNote, days: number, now = Date.now()): boolean {
+	if (!note.expiresAt) return false;
+	return Date.parse(note.expiresAt) - now < days * DAY_MS;
+}
+
+/**
+ * The badge for a published note in `state`: expiring soon outranks
+ * anonymous (a page without an account is the one that expires), which
+ * outranks modified since publish.
+ */
+export function noteBadge(
+	note: PublishedNote,
+	state: PublishState,
+	expiryWarningDays: number,
+	now = Date.now()
+): NoteBadge {
+	let kind: NoteBadgeKind = state === "modified" ? "modified" : "published";
+	const details = [state === "modified" ? "modified since publish" : "published"];
+	if (note.editToken) {
+		kind = "anonymous";
+		details.push("anonymous");
+	}
+	if (note.expiresAt && expiresWithin(note, expiryWarningDays, now)) {
+		kind = "expiring";
+		const date = note.expiresAt.slice(0, 10);
+		details.push(Date.parse(note.expiresAt) <= now ? `expired ${date}` : `expires ${date}`);
+	}
+	return { kind, details };
+}
+
+/**
+ * How many published notes each folder holds, subfolders included, keyed by
+ * folder path. The vault root isn't counted: it has no row in the explorer.
+ */
+export function countPublishedByFolder(paths: Iterable<string>): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const path of paths) {
+		const segments = path.split("/");
+		for (let i = 1; i < segments.length; i++) {
+			const folder = segments.slice(0, i).join("/");
+			counts.set(folder, (counts.get(folder) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { isExcludedPath, parseExclusionPatterns } from "./exclusions";
+
+function excluded(patterns: string, path: string): boolean {
+	return isExcludedPath(path, parseExclusionPatterns(patterns));
+}
+
+describe("isExcludedPath", () => {
+	it("excludes everything inside a folder", () => {
+		for (const pattern of ["Private/**", "Private/", "/Private/"]) {
+			expect(excluded(pattern, "Private/note.md")).toBe(true);
+			expect(excluded(pattern, "Private/Deep/scan.png")).toBe(true);
+			expect(excluded(pattern, "Work/Private/note.md")).toBe(false);
+			expect(excluded(pattern, "PrivateStuff/note.md")).toBe(false);
+		}
+	});
+
+	it("matches a pattern without a slash at any depth", () => {
+		expect(excluded("*.secret.md", "plans.secret.md")).toBe(true);
+		expect(excluded("*.secret.md", "Work/plans.secret.md")).toBe(true);
+		expect(excluded("*.secret.md", "Work/plans.md")).toBe(false);
+		expect(excluded("Journal", "Notes/Journal/2024-01-01.md")).toBe(true);
+	});
+
+	it("keeps * within a segment and lets **/ match no folders", () => {
+		expect(excluded("Work/*.md", "Work/a.md")).toBe(true);
+		expect(excluded("Work/*.md", "Work/Team/a.md")).toBe(false);
+		expect(excluded("Work/**/draft-?.md", "Work/draft-1.md")).toBe(true);
+		expect(excluded("Work/**/draft-?.md", "Work/a/b/draft-2.md")).toBe(true);
+	});
+
+	it("ignores case, blank lines and surrounding spaces", () => {
+		expect(excluded("\n  private/  \n\n", "Private/note.md")).toBe(true);
+		expect(excluded("", "Private/note.md")).toBe(false);
+	});
+});
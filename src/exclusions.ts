@@ -0,0 +1,63 @@
+/**
+ * Notes and files that must never be published, as gitignore-style patterns:
+ *
+ * - `Private/**` or `Private/` — everything inside the Private folder
+ * - `Journal` — any file or folder named Journal, wherever it is
+ * - `*.secret.md` — a pattern without a "/" matches names at any depth
+ * - `*` matches within one path segment, `**` across segments, `?` one character
+ *
+ * Matching is case-insensitive, so a pattern can't be sidestepped by renaming
+ * a folder's capitalization.
+ */
+
+/** Parse the exclusion setting: one pattern per line (commas also separate). */
+export function parseExclusionPatterns(value: string): RegExp[] {
+	return value
+		.split(/[\n,]/)
+		.map((line) => line.trim().replace(/^\/+/, ""))
+		.filter((line) => line.length > 0)
+		.map((pattern) => {
+			if (pattern.endsWith("/")) pattern += "**";
+			const anchored = pattern.includes("/");
+			const body = globToRegex(pattern);
+			return new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`, "i");
+		});
+}
+
+/**
+ * Whether a vault path is excluded: it, or any folder it's in, matches a
+ * pattern.
+ */
+export function isExcludedPath(path: string, patterns: RegExp[]): boolean {
+	if (patterns.length === 0) return false;
+	const segments = path.split("/");
+	for (let i = 1; i <= segments.length; i++) {
+		const candidate = segments.slice(0, i).join("/");
+		if (patterns.some((pattern) => pattern.test(candidate))) return true;
+	}
+	return false;
+}
+
+function globToRegex(glob: string): string {
+	let out = "";
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === "*" && glob[i + 1] === "*") {
+			// "**/" also matches no folders at all: Private/**/x.md covers Private/x.md
+			if (glob[i + 2] === "/") {
+				out += "(?:.*/)?";
+				i += 2;
+			} else {
+				out += ".*";
+				i++;
+			}
+		} else if (c === "*") {
+			out += "[^/]*";
+		} else if (c === "?") {
+			out += "[^/]";
+		} else {
+			out += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return out;
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { convertImage, optimizeImage, scaledSize, stripImageMetadata, type ImageOptimization } from "./images";
+
+describe("scaledSize", () => {
+	it("fits the longest side to the maximum, keeping the aspect ratio", () => {
+		expect(scaledSize(4000, 3000, 2000)).toEqual({ width: 2000, height: 1500 });
+		expect(scaledSize(1000, 4000, 2000)).toEqual({ width: 500, height: 2000 });
+	});
+
+	it("never enlarges", () => {
+		expect(scaledSize(800, 600, 2000)).toEqual({ width: 800, height: 600 });
+	});
+});
+
+describe("optimizeImage", () => {
+	const webp: ImageOptimization = { maxDimension: 2000, format: "webp", quality: 80 };
+
+	/**
+	 * Stand in for the browser's decoder and canvas: every image decodes to
+	 * `width` × `height`, and encoding yields `encodedBytes` bytes of `type`.
+	 */
+	function stubCanvas(width: number, height: number, encodedBytes: number, encodedType?: string) {
+		const drawImage = vi.fn();
+		const canvas = {
+			width: 0,
+			height: 0,
+			getContext: () => ({ drawImage, fillRect: vi.fn(), fillStyle: "" }),
+			toBlob: (cb: (blob: Blob | null) => void, type: string) =>
+				cb(new Blob([new Uint8Array(encodedBytes)], { type: encodedType ?? type })),
+		};
+		vi.stubGlobal("createImageBitmap", vi.fn().mockResolvedValue({ width, height, close: vi.fn() }));
+		vi.stubGlobal("activeDocument", { createElement: () => canvas });
+		return { canvas, drawImage };
+	}
+
+	const png = (bytes: number) => ({ data: new ArrayBuffer(bytes), mimeType: "image/png", filename: "photo.png" });
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("downsizes and re-encodes a large image", async () => {
+		const { canvas, drawImage } = stubCanvas(4000, 3000, 100);
+		const result = await optimizeImage(png(1000), webp);
+		expect(result.mimeType).toBe("image/webp");
+		expect(result.filename).toBe("photo.webp");
+		expect(result.data.byteLength).toBe(100);
+		expect([canvas.width, canvas.height]).toEqual([2000, 1500]);
+		expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 2000, 1500);
+	});
+
+	it("keeps the original when re-encoding wouldn't make it smaller", async () => {
+		stubCanvas(4000, 3000, 2000);
+		const original = png(1000);
+		expect(await optimizeImage(original, webp)).toBe(original);
+	});
+
+	it("leaves an image already within bounds and in the requested format alone", async () => {
+		stubCanvas(800, 600, 10);
+		const original = png(1000);
+		expect(await optimizeImage(original, { ...webp, format: "original" })).toBe(original);
+	});
+
+	it("never touches SVG or GIF", async () => {
+		stubCanvas(4000, 3000, 10);
+		const svg = { data: new ArrayBuffer(1000), mimeType: "image/svg+xml", filename: "icon.svg" };
+		const gif = { data: new ArrayBuffer(1000), mimeType: "image/gif", filename: "anim.gif" };
+		expect(await optimizeImage(svg, webp)).toBe(svg);
+		expect(await optimizeImage(gif, webp)).toBe(gif);
+		expect(createImageBitmap).not.toHaveBeenCalled();
+	});
+
+	it("keeps the original when the encoder doesn't support the format", async () => {
+		stubCanvas(4000, 3000, 10, "image/png");
+		const original = png(1000);
+		expect(await optimizeImage(original, webp)).toBe(original);
+	});
+
+	it("keeps the original when the image can't be decoded", async () => {
+		stubCanvas(4000, 3000, 10);
+		vi.stubGlobal("createImageBitmap", vi.fn().mockRejectedValue(new Error("decode failed")));
+		const original = png(1000);
+		expect(await optimizeImage(original, webp)).toBe(original);
+	});
+});
+
+describe("stripImageMetadata", () => {
+	const bytes = (...parts: (number[] | string)[]) =>
+		new Uint8Array(parts.flatMap((p) => (typeof p === "string" ? [...p].map((c) => c.charCodeAt(0)) : p)));
+	const u16be = (n: number) => [n >> 8, n & 0xff];
+	const u32be = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+	const u32le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24];
+
+	/** A little-endian TIFF block holding GPS-ish junk and an Orientation tag. */
+	const tiff = (orientation: number) =>
+		bytes("II", [0x2a, 0, 8, 0, 0, 0, 1, 0, 0x12, 0x01, 3, 0, 1, 0, 0, 0, orientation, 0, 0, 0, 0, 0, 0, 0], "GPS 51.5N");
+
+	const jpegSegment = (marker: number, payload: Uint8Array) => bytes([0xff, marker], u16be(payload.length + 2), [...payload]);
+	const jpeg = (orientation: number) =>
+		bytes(
+			[0xff, 0xd8],
+			[...jpegSegment(0xe0, bytes("JFIF\0", [1, 2]))],
+			[...jpegSegment(0xe1, bytes("Exif\0\0", [...tiff(orientation)]))],
+			[...jpegSegment(0xe1, bytes("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>"))],
+			[...jpegSegment(0xe2, bytes("ICC_PROFILE\0", [1, 1]))],
+			[...jpegSegment(0xfe, bytes("Shot on Camera 1234"))],
+			[0xff, 0xda, 0, 2, 9, 9, 9, 0xff, 0xd9]
+		);
+
+	const asImage = (data: Uint8Array, mimeType: string) => ({
+		data: data.buffer.slice(0) as ArrayBuffer,
+		mimeType,
+		filename: "photo",
+	});
+	const text = (data: ArrayBuffer) => String.fromCharCode(...new Uint8Array(data));
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("removes EXIF, XMP and comments from a JPEG, keeping the color profile and image data", async () => {
+		const result = await stripImageMetadata(asImage(jpeg(1), "image/jpeg"));
+		const out = text(result.data);
+		expect(out).not.toContain("Exif");
+		expect(out).not.toContain("GPS");
+		expect(out).not.toContain("xmpmeta");
+		expect(out).not.toContain("Camera");
+		expect(out).toContain("JFIF");
+		expect(out).toContain("ICC_PROFILE");
+		expect([...new Uint8Array(result.data).slice(-9)]).toEqual([0xff, 0xda, 0, 2, 9, 9, 9, 0xff, 0xd9]);
+	});
+
+	it("turns a rotated photo upright before dropping its orientation", async () => {
+		const createImageBitmap = vi.fn().mockResolvedValue({ width: 3, height: 4, close: vi.fn() });
+		vi.stubGlobal("createImageBitmap", createImageBitmap);
+		vi.stubGlobal("activeDocument", {
+			createElement: () => ({
+				getContext: () => ({ drawImage: vi.fn(), fillRect: vi.fn() }),
+				toBlob: (cb: (blob: Blob) => void, type: string) => cb(new Blob(["upright"], { type })),
+			}),
+		});
+
+		const result = await stripImageMetadata(asImage(jpeg(6), "image/jpeg"));
+
+		expect(createImageBitmap).toHaveBeenCalledWith(expect.any(Blob), { imageOrientation: "from-image" });
+		expect(text(result.data)).toBe("upright");
+		expect(result.mimeType).toBe("image/jpeg");
+	});
+
+	it("removes text and EXIF chunks from a PNG", async () => {
+		const chunk = (type: string, payload: Uint8Array) => bytes(u32be(payload.length), type, [...payload], [0, 0, 0, 0]);
+		const png = bytes(
+			[0x89],
+			"PNG\r\n\x1a\n",
+			[...chunk("IHDR", bytes([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]))],
+			[...chunk("tEXt", bytes("Author\0Jane"))],
+			[...chunk("eXIf", tiff(1))],
+			[...chunk("IDAT", bytes([1, 2, 3]))],
+			[...chunk("IEND", bytes([]))]
+		);
+
+		const out = text((await stripImageMetadata(asImage(png, "image/png"))).data);
+		expect(out).not.toContain("Jane");
+		expect(out).not.toContain("GPS");
+		expect(out).toContain("IHDR");
+		expect(out).toContain("IDAT");
+		expect(out).toContain("IEND");
+	});
+
+	it("removes EXIF and XMP chunks from a WebP and clears their flags", async () => {
+		const chunk = (type: string, payload: Uint8Array) =>
+			bytes(type, u32le(payload.length), [...payload], payload.length % 2 ? [0] : []);
+		const body = bytes(
+			"WEBP",
+			[...chunk("VP8X", bytes([0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]))],
+			[...chunk("VP8 ", bytes([5, 5, 5]))],
+			[...chunk("EXIF", tiff(1))],
+			[...chunk("XMP ", bytes("<x:xmpmeta/>"))]
+		);
+		const webp = bytes("RIFF", u32le(body.length), [...body]);
+
+		const result = new Uint8Array((await stripImageMetadata(asImage(webp, "image/webp"))).data);
+		const out = text(result.buffer as ArrayBuffer);
+		expect(out).not.toContain("EXIF");
+		expect(out).not.toContain("xmpmeta");
+		expect(out).toContain("VP8 ");
+		expect(new DataView(result.buffer).getUint32(4, true)).toBe(result.length - 8);
+		expect(result[20] & 0x0c).toBe(0);
+	});
+
+	it("leaves images without metadata, and other types, unchanged", async () => {
+		const clean = asImage(bytes([0xff, 0xd8], [0xff, 0xda, 0, 2, 9, 0xff, 0xd9]), "image/jpeg");
+		expect(await stripImageMetadata(clean)).toBe(clean);
+		const gif = asImage(bytes("GIF89a"), "image/gif");
+		expect(await stripImageMetadata(gif)).toBe(gif);
+	});
+
+	it("leaves a malformed image unchanged", async () => {
+		const broken = asImage(bytes([0xff, 0xd8, 0xff, 0xe1, 0x40, 0]), "image/jpeg");
+		expect(await stripImageMetadata(broken)).toBe(broken);
+	});
+});
+
+describe("convertImage", () => {
+	function stubRedraw() {
+		const createImageBitmap = vi.fn().mockResolvedValue({ width: 4, height: 3, close: vi.fn() });
+		vi.stubGlobal("createImageBitmap", createImageBitmap);
+		vi.stubGlobal("activeDocument", {
+			createElement: () => ({
+				getContext: () => ({ drawImage: vi.fn(), fillRect: vi.fn() }),
+				toBlob: (cb: (blob: Blob) => void, type: string) => cb(new Blob(["converted"], { type })),
+			}),
+		});
+		return createImageBitmap;
+	}
+
+	const source = (mimeType: string, filename: string) => ({ data: new ArrayBuffer(16), mimeType, filename });
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("turns photos into JPEG and lossless formats into PNG", async () => {
+		const createImageBitmap = stubRedraw();
+
+		const heic = await convertImage(source("image/heic", "IMG_0042.HEIC"));
+		expect(heic).toMatchObject({ mimeType: "image/jpeg", filename: "IMG_0042.jpg" });
+		expect(createImageBitmap).toHaveBeenCalledWith(expect.any(Blob), { imageOrientation: "from-image" });
+
+		const bmp = await convertImage(source("image/bmp", "scan.bmp"));
+		expect(bmp).toMatchObject({ mimeType: "image/png", filename: "scan.png" });
+		expect(await new Blob([bmp!.data]).text()).toBe("converted");
+	});
+
+	it("returns null when the image can't be decoded here", async () => {
+		stubRedraw();
+		vi.stubGlobal("createImageBitmap", vi.fn().mockRejectedValue(new DOMException("decode failed")));
+		expect(await convertImage(source("image/tiff", "scan.tiff"))).toBeNull();
+	});
+
+	it("returns null for a format it doesn't convert", async () => {
+		expect(await convertImage(source("image/png", "a.png"))).toBeNull();
+	});
+});
@@ -0,0 +1,342 @@
+/**
+ * Binary image transforms applied between reading an image from the vault and
+ * uploading it. Everything here is best-effort: when the platform can't decode
+ * or encode an image, the original bytes go up unchanged.
+ */
+
+import type { ImageOutputFormat } from "./types";
+
+/** An image as it will be uploaded. */
+export interface PreparedImage {
+	data: ArrayBuffer;
+	mimeType: string;
+	filename: string;
+}
+
+export interface ImageOptimization {
+	/** Longest side, in pixels, an uploaded image may have. */
+	maxDimension: number;
+	format: ImageOutputFormat;
+	/** Encoder quality for WebP and JPEG, 1–100. */
+	quality: number;
+}
+
+/** Vector and animated images: re-encoding would rasterize or freeze them. */
+const UNTOUCHED_TYPES = ["image/svg+xml", "image/gif"];
+
+const EXTENSION_FOR_TYPE: Record<string, string> = {
+	"image/png": "png",
+	"image/jpeg": "jpg",
+	"image/webp": "webp",
+};
+
+/**
+ * The size an image of `width` × `height` is drawn at so its longest side fits
+ * `maxDimension`, keeping its aspect ratio. Never enlarges.
+ */
+export function scaledSize(
+	width: number,
+	height: number,
+	maxDimension: number
+): { width: number; height: number } {
+	const scale = Math.min(1, maxDimension / Math.max(width, height));
+	return {
+		width: Math.max(1, Math.round(width * scale)),
+		height: Math.max(1, Math.round(height * scale)),
+	};
+}
+
+/**
+ * Downsize and re-encode an image per `options`. SVG and GIF pass through, as
+ * does an image already within bounds in the requested format, and the
+ * original is kept whenever re-encoding wouldn't make it smaller.
+ */
+export async function optimizeImage(
+	image: PreparedImage,
+	options: ImageOptimization
+): Promise<PreparedImage> {
+	if (UNTOUCHED_TYPES.includes(image.mimeType)) return image;
+
+	const outputType = options.format === "original" ? image.mimeType : `image/${options.format}`;
+	if (!(outputType in EXTENSION_FOR_TYPE)) return image;
+
+	try {
+		const bitmap = await createImageBitmap(new Blob([image.data], { type: image.mimeType }));
+		try {
+			const size = scaledSize(bitmap.width, bitmap.height, options.maxDimension);
+			const resized = size.width !== bitmap.width || size.height !== bitmap.height;
+			if (!resized && outputType === image.mimeType) return image;
+
+			const data = await drawAndEncode(bitmap, size, outputType, options.quality / 100);
+			if (!data || data.byteLength >= image.data.byteLength) return image;
+			return { data, mimeType: outputType, filename: withExtension(image.filename, outputType) };
+		} finally {
+			bitmap.close();
+		}
+	} catch {
+		// Undecodable here (or no canvas support) — upload it as it is.
+		return image;
+	}
+}
+
+/** JPEG/WebP quality used when an image is redrawn only to convert or turn it upright. */
+const REDRAW_QUALITY = 0.92;
+
+/** What each convertible format becomes: lossless sources stay lossless. */
+const CONVERSION_TARGETS: Record<string, string> = {
+	"image/bmp": "image/png",
+	"image/tiff": "image/png",
+	"image/heic": "image/jpeg",
+	"image/heif": "image/jpeg",
+	"image/avif": "image/jpeg",
+};
+
+/**
+ * Convert a HEIC, HEIF, AVIF, BMP or TIFF image to a format every browser
+ * displays (see CONVERSION_TARGETS), applying its orientation on the way.
+ * Returns null when this platform can't decode the image — Obsidian's
+ * renderer reads AVIF and BMP, but HEIC and TIFF only where the OS provides a
+ * decoder.
+ */
+export async function convertImage(image: PreparedImage): Promise<PreparedImage | null> {
+	const target = CONVERSION_TARGETS[image.mimeType];
+	if (!target) return null;
+	const data = await redraw(image, target);
+	return data ? { data, mimeType: target, filename: withExtension(image.filename, target) } : null;
+}
+
+/**
+ * Remove EXIF, XMP, IPTC and text metadata (GPS position, camera serials,
+ * capture times, editing history) from a JPEG, PNG or WebP image. The color
+ * profile and everything needed to display the image are kept.
+ *
+ * A photo whose EXIF orientation turns it sideways is redrawn upright first,
+ * since without the tag it would display rotated; the redrawn image carries no
+ * metadata at all. Other types, and images with nothing to remove, come back
+ * unchanged.
+ */
+export async function stripImageMetadata(image: PreparedImage): Promise<PreparedImage> {
+	const bytes = new Uint8Array(image.data);
+	let stripped: StrippedImage | null;
+	try {
+		stripped =
+			image.mimeType === "image/jpeg"
+				? stripJpeg(bytes)
+				: image.mimeType === "image/png"
+					? stripPng(bytes)
+					: image.mimeType === "image/webp"
+						? stripWebp(bytes)
+						: null;
+	} catch {
+		// Truncated or malformed — not something we can safely rewrite.
+		return image;
+	}
+	if (!stripped) return image;
+
+	if (stripped.orientation > 1) {
+		const upright = await renderUpright(image);
+		if (upright) return upright;
+		// No canvas to redraw with: privacy wins over orientation, and the
+		// stripped image goes up as it is.
+	}
+	return { ...image, data: toArrayBuffer(stripped.data) };
+}
+
+interface StrippedImage {
+	data: Uint8Array;
+	/** The EXIF orientation the original carried (1 = upright). */
+	orientation: number;
+}
+
+/** JPEG APPn segments that only ever hold metadata: EXIF/XMP (APP1) through APP13 (IPTC). */
+function isJpegMetadataSegment(marker: number, bytes: Uint8Array, start: number): boolean {
+	if (marker === 0xfe) return true; // COM
+	if (marker === 0xe2) return !startsWithAscii(bytes, start, "ICC_PROFILE\0");
+	return marker === 0xe1 || (marker >= 0xe3 && marker <= 0xed);
+}
+
+function stripJpeg(bytes: Uint8Array): StrippedImage | null {
+	if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+	const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+	let orientation = 1;
+	let removed = false;
+	let pos = 2;
+	while (pos + 4 <= bytes.length) {
+		if (bytes[pos] !== 0xff) throw new Error("Malformed JPEG");
+		const marker = bytes[pos + 1];
+		// Start of scan: the compressed image data follows, with no more metadata
+		if (marker === 0xda) break;
+		const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+		const end = pos + 2 + length;
+		if (end > bytes.length) throw new Error("Malformed JPEG");
+		if (isJpegMetadataSegment(marker, bytes, pos + 4)) {
+			if (marker === 0xe1 && startsWithAscii(bytes, pos + 4, "Exif\0\0")) {
+				orientation = readExifOrientation(bytes.subarray(pos + 10, end));
+			}
+			removed = true;
+		} else {
+			kept.push(bytes.subarray(pos, end));
+		}
+		pos = end;
+	}
+	if (!removed) return null;
+	kept.push(bytes.subarray(pos));
+	return { data: concat(kept), orientation };
+}
+
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "zTXt", "iTXt", "tIME"];
+
+function stripPng(bytes: Uint8Array): StrippedImage | null {
+	if (!startsWithAscii(bytes, 1, "PNG")) return null;
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+	let orientation = 1;
+	let removed = false;
+	let pos = 8;
+	while (pos + 12 <= bytes.length) {
+		const length = view.getUint32(pos);
+		const type = ascii(bytes, pos + 4, 4);
+		const end = pos + 12 + length;
+		if (end > bytes.length) throw new Error("Malformed PNG");
+		if (PNG_METADATA_CHUNKS.includes(type)) {
+			if (type === "eXIf") orientation = readExifOrientation(bytes.subarray(pos + 8, end - 4));
+			removed = true;
+		} else {
+			kept.push(bytes.subarray(pos, end));
+		}
+		pos = end;
+	}
+	return removed ? { data: concat(kept), orientation } : null;
+}
+
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+function stripWebp(bytes: Uint8Array): StrippedImage | null {
+	if (!startsWithAscii(bytes, 0, "RIFF") || !startsWithAscii(bytes, 8, "WEBP")) return null;
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const kept: Uint8Array[] = [];
+	let orientation = 1;
+	let removed = false;
+	let pos = 12;
+	while (pos + 8 <= bytes.length) {
+		const type = ascii(bytes, pos, 4);
+		const size = view.getUint32(pos + 4, true);
+		// Chunks are padded to an even length
+		const end = Math.min(pos + 8 + size + (size % 2), bytes.length);
+		if (pos + 8 + size > bytes.length) throw new Error("Malformed WebP");
+		if (type === "EXIF" || type === "XMP ") {
+			if (type === "EXIF") {
+				// Some encoders keep the JPEG-style "Exif\0\0" prefix
+				const offset = startsWithAscii(bytes, pos + 8, "Exif\0\0") ? 6 : 0;
+				orientation = readExifOrientation(bytes.subarray(pos + 8 + offset, pos + 8 + size));
+			}
+			removed = true;
+		} else if (type === "VP8X") {
+			const chunk = bytes.slice(pos, end);
+			chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+			kept.push(chunk);
+		} else {
+			kept.push(bytes.subarray(pos, end));
+		}
+		pos = end;
+	}
+	if (!removed) return null;
+
+	const body = concat(kept);
+	const header = new Uint8Array(12);
+	header.set(bytes.subarray(0, 12));
+	new DataView(header.buffer).setUint32(4, body.length + 4, true);
+	return { data: concat([header, body]), orientation };
+}
+
+/** The Orientation tag (0x0112) from a TIFF-structured EXIF block, or 1. */
+function readExifOrientation(tiff: Uint8Array): number {
+	if (tiff.length < 8) return 1;
+	const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+	const little = tiff[0] === 0x49 && tiff[1] === 0x49; // "II"
+	if (!little && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) return 1; // "MM"
+	const ifd = view.getUint32(4, little);
+	if (ifd + 2 > tiff.length) return 1;
+	const count = view.getUint16(ifd, little);
+	for (let i = 0; i < count; i++) {
+		const entry = ifd + 2 + i * 12;
+		if (entry + 12 > tiff.length) break;
+		if (view.getUint16(entry, little) === 0x0112) {
+			const value = view.getUint16(entry + 8, little);
+			return value >= 1 && value <= 8 ? value : 1;
+		}
+	}
+	return 1;
+}
+
+/** Redraw an image with its EXIF orientation applied, in its own format. */
+async function renderUpright(image: PreparedImage): Promise<PreparedImage | null> {
+	const data = await redraw(image, image.mimeType);
+	return data ? { ...image, data } : null;
+}
+
+/** Decode an image (orientation applied) and encode it at full size as `type`. */
+async function redraw(image: PreparedImage, type: string): Promise<ArrayBuffer | null> {
+	try {
+		const bitmap = await createImageBitmap(new Blob([image.data], { type: image.mimeType }), {
+			imageOrientation: "from-image",
+		});
+		try {
+			return await drawAndEncode(bitmap, { width: bitmap.width, height: bitmap.height }, type, REDRAW_QUALITY);
+		} finally {
+			bitmap.close();
+		}
+	} catch {
+		return null;
+	}
+}
+
+function startsWithAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+	return ascii(bytes, offset, text.length) === text;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+	return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+	const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+	return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+async function drawAndEncode(
+	bitmap: ImageBitmap,
+	size: { width: number; height: number },
+	type: string,
+	quality: number
+): Promise<ArrayBuffer | null> {
+	const canvas = activeDocument.createElement("canvas");
+	canvas.width = size.width;
+	canvas.height = size.height;
+	const context = canvas.getContext("2d");
+	if (!context) return null;
+	// JPEG has no alpha channel: transparent pixels would otherwise turn black.
+	if (type === "image/jpeg") {
+		context.fillStyle = "#fff";
+		context.fillRect(0, 0, size.width, size.height);
+	}
+	context.drawImage(bitmap, 0, 0, size.width, size.height);
+	const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+	// An encoder that doesn't support `type` silently falls back to PNG.
+	return blob && blob.type === type ? blob.arrayBuffer() : null;
+}
+
+function withExtension(filename: string, mimeType: string): string {
+	const base = filename.replace(/\.[^.]+$/, "");
+	return `${base}.${EXTENSION_FOR_TYPE[mimeType]}`;
+}
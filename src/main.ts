@@ -1,10 +1,13 @@
-import { addIcon, Notice, Plugin, TFile, TAbstractFile, MarkdownView, setIcon } from "obsidian";
+import { addIcon, Menu, Notice, Plugin, TFile, TFolder, TAbstractFile, MarkdownView, setIcon } from "obsidian";
 import {
 	JotBirdSettings,
 	DEFAULT_SETTINGS,
 	PublishedNote,
 	PluginData,
 	PublishWarning,
+	AttachmentIssue,
+	NoteActionResult,
+	PublishState,
 } from "./types";
 import {
 	publishNote,
@@ -15,8 +18,18 @@ import {
 	claimDocument,
 	getPageSettings,
 	setClientVersion,
+	RateLimitError,
 } from "./api";
-import { processMarkdown, applyTitleMode } from "./markdown";
+import {
+	processMarkdown,
+	applyTitleMode,
+	resolveUnpublishedLinkMode,
+	parseAttachmentTypes,
+	formatMegabytes,
+	contentFingerprint,
+	FM_UNPUBLISHED_LINKS,
+	type PublishContext,
+} from "./markdown";
 import {
 	resolvePagePublishSettings,
 	reconcileNoteProperty,
@@ -24,20 +37,68 @@ import {
 	FM_HIDE_BRANDING,
 	type SettingProperty,
 } from "./pageSettings";
+import { isExcludedPath, parseExclusionPatterns } from "./exclusions";
+import { countPublishedByFolder, noteBadge } from "./badges";
+import { PublishedNotesView, VIEW_TYPE_PUBLISHED } from "./publishedView";
+import { parseSecretAllowlist, scanForSecrets, type SecretFinding } from "./scanner";
 import { JotBirdSettingTab } from "./settings";
-import { ConfirmModal, DocumentListModal, PageSettingsModal } from "./modals";
+import {
+	BulkProgressModal,
+	ConfirmModal,
+	DocumentListModal,
+	PageSettingsModal,
+	SecretFindingsModal,
+} from "./modals";
 
 /** How long a Pro-status check stays fresh. Long enough that opening the
  * settings tab or the page-settings modal repeatedly doesn't spam the API,
  * short enough that a subscription change is picked up within a session. */
 const PRO_CHECK_TTL_MS = 5 * 60 * 1000;
 
+/** Checkbox property that turns auto-update on (true) or off (false) for one note. */
+const FM_AUTO_UPDATE = "jotbird_auto_update";
+/** Quiet period after the last edit before an auto-update republishes the note. */
+const AUTO_UPDATE_DELAY_MS = 15 * 1000;
+
+/** Quiet period after an edit before a published note's state is checked again. */
+const STATE_REFRESH_DELAY_MS = 1000;
+
+/** Delay before the explorer badges and sidebar view are redrawn, so a bulk action redraws them once. */
+const REDRAW_DELAY_MS = 100;
+
+/** Pause between notes in a bulk action, to stay under the publish rate limit. */
+const BULK_INTERVAL_MS = 1500;
+/** How long a bulk action waits after a rate limit that came without a Retry-After. */
+const RATE_LIMIT_FALLBACK_MS = 60 * 1000;
+/** Rate-limit waits for one note before a bulk action reports it as failed. */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/** "1 note", "3 notes". */
+function countNotes(n: number): string {
+	return `${n} note${n === 1 ? "" : "s"}`;
+}
+
+/** One line for a bulk action's outcome, e.g. "Done: 3 published, 1 failed." */
+function summarizeResults(results: NoteActionResult[], total: number): string {
+	const counts = new Map<NoteActionResult["status"], number>();
+	for (const r of results) counts.set(r.status, (counts.get(r.status) ?? 0) + 1);
+	const parts = (["published", "updated", "unpublished", "skipped", "failed"] as const)
+		.filter((status) => counts.has(status))
+		.map((status) => `${counts.get(status)} ${status}`);
+	const cancelled = results.length < total;
+	if (cancelled) parts.push(`${total - results.length} not started`);
+	return `${cancelled ? "Cancelled" : "Done"}: ${parts.length > 0 ? parts.join(", ") : "nothing to do"}.`;
+}
+
 export default class JotBirdPlugin extends Plugin {
 	settings: JotBirdSettings = DEFAULT_SETTINGS;
 	publishedNotes: Record<string, PublishedNote> = {};
+	// Content hash -> uploaded image URL; see PluginData.imageCache.
+	imageCache: Record<string, string> = {};
 	deviceFingerprint: string = "";
 	isPro = false;
 	private settingTab: JotBirdSettingTab | null = null;
+	private ribbonIconEl: HTMLElement | null = null;
 	proRefreshDone = false;
 	// CSRF nonce for the browser sign-in flow: minted when the user clicks "Connect
 	// account", verified against the `state` on the obsidian://jotbird?token=… callback,
@@ -56,6 +117,20 @@ export default class JotBirdPlugin extends Plugin {
 	// note is still reported. Scoped per note deliberately; see
 	// noticePublishWarnings. In-memory: a restart shows each again once.
 	private seenPublishWarnings = new Set<string>();
+	// File path -> pending auto-update timer, restarted by each edit.
+	private autoUpdateTimers = new Map<string, number>();
+	// File path -> PublishState of a published note, as last checked; see getPublishState.
+	private publishStates = new Map<string, PublishState>();
+	// File path -> pending state check after an edit.
+	private stateRefreshTimers = new Map<string, number>();
+	// Status bar text for background auto-updates, which never toast.
+	private autoUpdateStatusEl: HTMLElement | null = null;
+	// Status bar item for the active note's publish state; see updatePublishStatus.
+	private publishStatusEl: HTMLElement | null = null;
+	// Badges drawn into the file explorer, removed before each redraw.
+	private explorerBadgeEls: HTMLElement[] = [];
+	// Pending redraw of the explorer badges and published notes views.
+	private redrawTimer: number | null = null;
 
 	// async onload() is the standard Obsidian pattern — the plugin loader awaits it.
 	// The pinned 1.4.x typings type onload() as void-returning, which trips
@@ -80,6 +155,10 @@ export default class JotBirdPlugin extends Plugin {
 		// pageSettings.ts). Registered so Obsidian renders them natively.
 		mtm?.setType(FM_THEME, "text"); // no native enum property type
 		mtm?.setType(FM_HIDE_BRANDING, "checkbox");
+		mtm?.setType(FM_UNPUBLISHED_LINKS, "text");
+		mtm?.setType(FM_AUTO_UPDATE, "checkbox");
+		const publishProperty = this.settings.publishProperty.trim();
+		if (publishProperty) mtm?.setType(publishProperty, "checkbox");
 
 		// Register custom icon (scaled to fit 0 0 100 100 viewBox)
 		addIcon(
@@ -87,10 +166,13 @@ export default class JotBirdPlugin extends Plugin {
 			'<g transform="translate(2,14) scale(0.1197)" fill="currentColor"><path d="m749.18 258.35c-17.18-46.97-31.77-92.07-87.4-104.45-52.34-9.51-98.9 3.62-158.2 78.02-23.9-98.52-120.15-173.3-206.36-218.41 0 0 39.67 122.68 33.16 241.48 101.25 37.59 203.44 39.32 255.73 35.87-13.25 21.65-27.89 43.56-46.28 65.41-123.12-31.45-290.9-107.02-353.28-288.37 0 0-58.06 158.56 69.86 364.6-48.81 39.83-126.77 56.24-248.36 27.89 45.81 40.48 141.02 65.94 205.14 68.41-36.03 1.8-77.33 44.13-90.24 63.68 100.36-29.78 167.59-26.26 242.21-45.38q3.18-0.81 6.38-1.68c106.87-29.09 157.17-105.05 218.16-164.14 61.02-59.07 143.16-76.02 204.25-53.73 0 0-36.12-45.54-44.77-69.2z"/></g>'
 		);
 
-		// Ribbon icon
-		this.addRibbonIcon("jotbird", "Publish note", () => {
-			void this.publishActiveNote();
-		});
+		// Ribbon icon — hidden while the active note is excluded from publishing
+		this.ribbonIconEl =
+			this.addRibbonIcon("jotbird", "Publish note", () => {
+				void this.publishActiveNote();
+			}) ?? null;
+		// The note open at startup doesn't change the active leaf
+		this.app.workspace.onLayoutReady(() => this.updateRibbonIcon());
 
 		// Command: Publish / Update current note
 		this.addCommand({
@@ -98,7 +180,7 @@ export default class JotBirdPlugin extends Plugin {
 			name: "Publish current note",
 			checkCallback: (checking) => {
 				const file = this.getActiveMarkdownFile();
-				if (!file) return false;
+				if (!file || this.isExcluded(file.path)) return false;
 				if (!checking) void this.publishActiveNote();
 				return true;
 			},
@@ -164,6 +246,16 @@ export default class JotBirdPlugin extends Plugin {
 			},
 		});
 
+		// Sidebar view of published notes, next to the server's view of each page
+		this.registerView(VIEW_TYPE_PUBLISHED, (leaf) => new PublishedNotesView(leaf, this));
+		this.addCommand({
+			id: "open-published-notes",
+			name: "Open published notes",
+			callback: () => {
+				void this.activatePublishedView();
+			},
+		});
+
 		// Command: List published documents
 		this.addCommand({
 			id: "list-published-documents",
@@ -173,53 +265,158 @@ export default class JotBirdPlugin extends Plugin {
 			},
 		});
 
+		// Command: Clear image upload cache — forces every image to upload fresh
+		// on its next publish.
+		this.addCommand({
+			id: "clear-image-cache",
+			name: "Clear image upload cache",
+			callback: () => {
+				void this.clearImageCache();
+			},
+		});
+
+		// Command: Sync published notes — publish what the publish property
+		// says should be public, and offer to take down what it no longer does.
+		this.addCommand({
+			id: "sync-published-notes",
+			name: "Sync published notes",
+			callback: () => {
+				void this.syncPublishedNotes();
+			},
+		});
+
+		// Command: Republish all modified notes — only those whose page is
+		// behind the note, judged by fingerprint.
+		this.addCommand({
+			id: "republish-modified-notes",
+			name: "Republish all modified notes",
+			callback: () => {
+				void this.republishModifiedNotes();
+			},
+		});
+
 		// File menu (right-click in file explorer)
 		this.registerEvent(
 			this.app.workspace.on("file-menu", (menu, file) => {
+				if (file instanceof TFolder) {
+					if (!this.isExcluded(file.path)) {
+						menu.addItem((item) => {
+							item.setTitle("Publish folder to JotBird")
+								.setIcon("jotbird")
+								.onClick(() => this.publishFolder(file));
+						});
+					}
+					const prefix = file.isRoot() ? "" : `${file.path}/`;
+					if (Object.keys(this.publishedNotes).some((path) => path.startsWith(prefix))) {
+						menu.addItem((item) => {
+							item.setTitle("Unpublish folder")
+								.setIcon("trash")
+								.onClick(() => this.unpublishFolder(file));
+						});
+					}
+					return;
+				}
 				if (!(file instanceof TFile) || file.extension !== "md") return;
 
 				const published = this.publishedNotes[file.path];
+				// An excluded note can't be (re)published, but one published before
+				// it was excluded can still be copied, configured and taken down.
+				const excluded = this.isExcluded(file.path);
 
 				if (published) {
+					this.addPublishedNoteItems(menu, file, published);
+				} else if (!excluded) {
 					menu.addItem((item) => {
-						item.setTitle("Republish")
+						item.setTitle("Publish")
 							.setIcon("jotbird")
 							.onClick(() => this.publishFile(file));
 					});
+				}
+			})
+		);
+
+		// Files menu (right-click a multi-selection in the file explorer). Each
+		// action applies to the selected notes it makes sense for, and reports
+		// once for the lot instead of per note.
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files) => {
+				const notes = files.filter((f): f is TFile => f instanceof TFile && f.extension === "md");
+				const published = notes.filter((f) => this.publishedNotes[f.path]);
+				const unpublished = notes.filter((f) => !this.publishedNotes[f.path] && !this.isExcluded(f.path));
+				const republishable = published.filter((f) => !this.isExcluded(f.path));
+				const configurable = published.filter((f) => this.canManagePageSettings(f));
+
+				if (unpublished.length > 0) {
+					menu.addItem((item) => {
+						item.setTitle(`Publish ${countNotes(unpublished.length)} to JotBird`)
+							.setIcon("jotbird")
+							.onClick(() => this.publishMany(`Publishing ${countNotes(unpublished.length)}`, unpublished));
+					});
+				}
+				if (republishable.length > 0) {
 					menu.addItem((item) => {
-						item.setTitle("Copy link")
+						item.setTitle(`Republish ${countNotes(republishable.length)}`)
+							.setIcon("jotbird")
+							.onClick(() => this.publishMany(`Republishing ${countNotes(republishable.length)}`, republishable));
+					});
+				}
+				if (published.length > 0) {
+					menu.addItem((item) => {
+						item.setTitle(`Copy ${published.length} link${published.length === 1 ? "" : "s"}`)
 							.setIcon("link")
-							.onClick(() => {
-								void navigator.clipboard.writeText(published.url);
-								new Notice("Link copied to clipboard");
-							});
+							.onClick(() => this.copyLinks(published));
 					});
-					if (this.canManagePageSettings(file)) {
-						menu.addItem((item) => {
-							item.setTitle("Page settings")
-								.setIcon("settings")
-								.onClick(() => this.openPageSettings(file));
-						});
-					}
+				}
+				if (configurable.length > 0) {
 					menu.addItem((item) => {
-						item.setTitle("Unpublish")
-							.setIcon("trash")
-							.onClick(() => this.unpublishNote(file));
+						item.setTitle(`Page settings for ${countNotes(configurable.length)}`)
+							.setIcon("settings")
+							.onClick(() => this.openPageSettingsInTurn(configurable));
 					});
-				} else {
+				}
+				if (published.length > 0) {
 					menu.addItem((item) => {
-						item.setTitle("Publish")
-							.setIcon("jotbird")
-							.onClick(() => this.publishFile(file));
+						item.setTitle(`Unpublish ${countNotes(published.length)}`)
+							.setIcon("trash")
+							.onClick(() => this.unpublishMany(`Unpublishing ${countNotes(published.length)}`, published));
 					});
 				}
 			})
 		);
 
+		// Status bar item for the active note, with its actions on click
+		this.publishStatusEl = this.addStatusBarItem() ?? null;
+		if (this.publishStatusEl) {
+			this.publishStatusEl.addClass("jotbird-status", "mod-clickable");
+			this.registerDomEvent(this.publishStatusEl, "click", (evt) => this.showPublishStatusMenu(evt));
+		}
+		this.updatePublishStatus();
+
+		// Badges in the file explorer, redrawn when it's (re)opened
+		this.app.workspace.onLayoutReady(() => this.scheduleRedraw());
+		// No "modify" event reports edits made while Obsidian was closed
+		this.app.workspace.onLayoutReady(() => void this.refreshPublishStates());
+		this.registerEvent(this.app.workspace.on("layout-change", () => this.scheduleRedraw()));
+
 		// Inject action icons next to jotbird_link in the properties panel
 		this.registerEvent(
 			this.app.workspace.on("active-leaf-change", () => {
 				this.addPropertyIcons();
+				this.updateRibbonIcon();
+				this.updatePublishStatus();
+			})
+		);
+		// Opening another note in the same tab doesn't change the active leaf
+		this.registerEvent(this.app.workspace.on("file-open", () => this.updatePublishStatus()));
+
+		// Auto-update: republish a published note in the background once edits
+		// to it settle (see scheduleAutoUpdate)
+		this.autoUpdateStatusEl = this.addStatusBarItem() ?? null;
+		this.registerEvent(
+			this.app.vault.on("modify", (file: TAbstractFile) => {
+				if (!(file instanceof TFile)) return;
+				this.schedulePublishStateRefresh(file);
+				this.scheduleAutoUpdate(file);
 			})
 		);
 
@@ -231,6 +428,10 @@ export default class JotBirdPlugin extends Plugin {
 				if (published) {
 					this.publishedNotes[file.path] = published;
 					delete this.publishedNotes[oldPath];
+					// The title can come from the file name, so check again
+					this.publishStates.delete(oldPath);
+					this.schedulePublishStateRefresh(file);
+					this.refreshPublishIndicators();
 					void this.saveSettings();
 				}
 				// Dismissed publish warnings are keyed by path; move them with the
@@ -245,6 +446,8 @@ export default class JotBirdPlugin extends Plugin {
 				if (!(file instanceof TFile)) return;
 				if (this.publishedNotes[file.path]) {
 					delete this.publishedNotes[file.path];
+					this.publishStates.delete(file.path);
+					this.refreshPublishIndicators();
 					void this.saveSettings();
 				}
 			})
@@ -290,6 +493,17 @@ export default class JotBirdPlugin extends Plugin {
 		});
 	}
 
+	onunload(): void {
+		for (const timer of [...this.autoUpdateTimers.values(), ...this.stateRefreshTimers.values()]) {
+			window.clearTimeout(timer);
+		}
+		this.autoUpdateTimers.clear();
+		this.stateRefreshTimers.clear();
+		if (this.redrawTimer !== null) window.clearTimeout(this.redrawTimer);
+		for (const el of this.explorerBadgeEls) el.remove();
+		this.explorerBadgeEls = [];
+	}
+
 	/**
 	 * Start the browser sign-in flow: mint a single-use CSRF nonce, remember it, and
 	 * return it so the caller can pass it as `state` in the connect URL. The
@@ -301,6 +515,11 @@ export default class JotBirdPlugin extends Plugin {
 		return this.pendingAuthNonce;
 	}
 
+	/** Whether the note or file at `path` matches the excluded-paths setting. */
+	isExcluded(path: string): boolean {
+		return isExcludedPath(path, parseExclusionPatterns(this.settings.excludedPaths));
+	}
+
 	private getActiveMarkdownFile(): TFile | null {
 		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (view?.file) return view.file;
@@ -365,6 +584,160 @@ export default class JotBirdPlugin extends Plugin {
 		}, 50);
 	}
 
+	/**
+	 * The actions on a published note, shared by its file menu and the status
+	 * bar menu: republish (unless excluded), copy link, open page (when asked
+	 * for), page settings (when they can be managed) and unpublish.
+	 */
+	private addPublishedNoteItems(menu: Menu, file: TFile, published: PublishedNote, withOpenPage = false): void {
+		if (!this.isExcluded(file.path)) {
+			menu.addItem((item) => {
+				item.setTitle(this.getPublishState(file) === "modified" ? "Republish changes" : "Republish")
+					.setIcon("jotbird")
+					.onClick(() => this.publishFile(file));
+			});
+		}
+		menu.addItem((item) => {
+			item.setTitle("Copy link")
+				.setIcon("link")
+				.onClick(() => {
+					void navigator.clipboard.writeText(published.url);
+					new Notice("Link copied to clipboard");
+				});
+		});
+		if (withOpenPage) {
+			menu.addItem((item) => {
+				item.setTitle("Open page")
+					.setIcon("external-link")
+					.onClick(() => window.open(published.url));
+			});
+		}
+		if (this.canManagePageSettings(file)) {
+			menu.addItem((item) => {
+				item.setTitle("Page settings")
+					.setIcon("settings")
+					.onClick(() => this.openPageSettings(file));
+			});
+		}
+		menu.addItem((item) => {
+			item.setTitle("Unpublish")
+				.setIcon("trash")
+				.onClick(() => this.unpublishNote(file));
+		});
+	}
+
+	/** Hide the ribbon icon while the active note is excluded from publishing. */
+	private updateRibbonIcon(): void {
+		const file = this.getActiveMarkdownFile();
+		this.ribbonIconEl?.toggle(!file || !this.isExcluded(file.path));
+	}
+
+	/**
+	 * Show the active note's publish state in the status bar: published or
+	 * modified since, anonymous when it still carries an edit token, and the
+	 * expiry date once it's near. Hidden for notes that aren't published.
+	 */
+	private updatePublishStatus(): void {
+		const el = this.publishStatusEl;
+		if (!el) return;
+		const file = this.getActiveMarkdownFile();
+		const published = file ? this.publishedNotes[file.path] : undefined;
+		if (!file || !published) {
+			el.toggle(false);
+			return;
+		}
+		const state = this.getPublishState(file);
+		const badge = noteBadge(published, state, this.settings.expiryWarningDays);
+		el.setText(`JotBird: ${badge.details.join(", ")}`);
+		el.setAttr("aria-label", published.url);
+		el.toggleClass("jotbird-status-modified", state === "modified");
+		el.toggleClass("jotbird-status-expiring", badge.kind === "expiring");
+		el.toggle(true);
+	}
+
+	/**
+	 * Bring the status bar, the explorer badges and the published notes view
+	 * up to date after published notes, their states or the settings that
+	 * show them change.
+	 */
+	refreshPublishIndicators(): void {
+		this.updatePublishStatus();
+		this.scheduleRedraw();
+	}
+
+	private scheduleRedraw(): void {
+		if (this.redrawTimer !== null) window.clearTimeout(this.redrawTimer);
+		this.redrawTimer = window.setTimeout(() => {
+			this.redrawTimer = null;
+			this.drawExplorerBadges();
+			for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_PUBLISHED)) {
+				if (leaf.view instanceof PublishedNotesView) leaf.view.refresh();
+			}
+		}, REDRAW_DELAY_MS);
+	}
+
+	/** Open the published notes view in the right sidebar, or bring it forward. */
+	async activatePublishedView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_PUBLISHED)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			await leaf.setViewState({ type: VIEW_TYPE_PUBLISHED, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Badge each published note in the file explorer with its most pressing
+	 * state (see noteBadge), and each folder holding published notes with how
+	 * many. The explorer has no API for decorations, so this reaches into its
+	 * per-path items — every part of which may be missing in another version.
+	 */
+	private drawExplorerBadges(): void {
+		for (const el of this.explorerBadgeEls) el.remove();
+		this.explorerBadgeEls = [];
+		if (!this.settings.explorerBadges) return;
+
+		const paths = Object.keys(this.publishedNotes);
+		const folderCounts = countPublishedByFolder(paths);
+		for (const leaf of this.app.workspace.getLeavesOfType("file-explorer")) {
+			const items = (leaf.view as unknown as { fileItems?: Record<string, { selfEl?: HTMLElement }> }).fileItems;
+			if (!items) continue;
+			for (const path of paths) {
+				const selfEl = items[path]?.selfEl;
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!selfEl || !(file instanceof TFile)) continue;
+				const badge = noteBadge(this.publishedNotes[path], this.getPublishState(file), this.settings.expiryWarningDays);
+				this.explorerBadgeEls.push(
+					selfEl.createSpan({
+						cls: ["jotbird-badge", `jotbird-badge-${badge.kind}`],
+						attr: { "aria-label": `JotBird: ${badge.details.join(", ")}` },
+					})
+				);
+			}
+			for (const [folder, count] of folderCounts) {
+				const selfEl = items[folder]?.selfEl;
+				if (!selfEl) continue;
+				this.explorerBadgeEls.push(
+					selfEl.createSpan({
+						cls: "jotbird-folder-count",
+						text: String(count),
+						attr: { "aria-label": `${countNotes(count)} published` },
+					})
+				);
+			}
+		}
+	}
+
+	private showPublishStatusMenu(evt: MouseEvent): void {
+		const file = this.getActiveMarkdownFile();
+		const published = file ? this.publishedNotes[file.path] : undefined;
+		if (!file || !published) return;
+		const menu = new Menu();
+		this.addPublishedNoteItems(menu, file, published, true);
+		menu.showAtMouseEvent(evt);
+	}
+
 	private requireApiKey(): boolean {
 		if (!this.settings.apiKey) {
 			new Notice("Please set your API key in settings.");
@@ -437,11 +810,16 @@ export default class JotBirdPlugin extends Plugin {
 	 * `pro_lapsed` is never suppressed: it fires once per page by construction
 	 * (the strip removes the value) and is a churn-worthy event.
 	 */
-	private noticePublishWarnings(file: TFile, warnings: PublishWarning[] | undefined): void {
-		if (!warnings || warnings.length === 0) return;
+	private noticePublishWarnings(
+		file: TFile,
+		warnings: PublishWarning[] | undefined,
+		attachmentIssues: AttachmentIssue[] = []
+	): void {
+		const all = warnings ?? [];
+		if (all.length === 0 && attachmentIssues.length === 0) return;
 
-		const lapsed = warnings.filter((w) => w.reason === "pro_lapsed");
-		const rest = warnings.filter((w) => w.reason !== "pro_lapsed");
+		const lapsed = all.filter((w) => w.reason === "pro_lapsed");
+		const rest = all.filter((w) => w.reason !== "pro_lapsed");
 
 		// Query, then record. Folding the mutation into the filter predicate makes
 		// suppression a side effect of what reads like a pure query — any later
@@ -451,9 +829,28 @@ export default class JotBirdPlugin extends Plugin {
 			this.markNoticeSeen(file.path, this.warningKey(w));
 		}
 
-		const shown = [...lapsed, ...fresh];
+		const shown = [...lapsed, ...fresh].map((w) => w.message);
+		// Attachment issues are never suppressed: each one is a fresh failure of
+		// THIS publish, and the page now lacks the file.
+		if (attachmentIssues.length > 0) shown.push(this.describeAttachmentIssues(attachmentIssues));
 		if (shown.length === 0) return;
-		new Notice(shown.map((w) => w.message).join("\n\n"), 10000);
+		new Notice(shown.join("\n\n"), 10000);
+	}
+
+	/** Ask whether to publish a note the secret scanner flagged. */
+	private confirmSecrets(file: TFile, findings: SecretFinding[]): Promise<boolean> {
+		return new Promise((resolve) => {
+			new SecretFindingsModal(this.app, file.basename, findings, resolve).open();
+		});
+	}
+
+	private describeSecrets(findings: SecretFinding[]): string {
+		return findings.map((f) => `${f.kind} on line ${f.line}`).join(", ");
+	}
+
+	private describeAttachmentIssues(issues: AttachmentIssue[]): string {
+		const count = `${issues.length} attachment${issues.length === 1 ? "" : "s"}`;
+		return `${count} couldn't be published:\n` + issues.map((i) => `• ${i.message}`).join("\n");
 	}
 
 	private warningKey(warning: PublishWarning): string {
@@ -507,10 +904,10 @@ export default class JotBirdPlugin extends Plugin {
 		return !!(this.settings.apiKey && published && !published.editToken);
 	}
 
-	openPageSettings(file: TFile): void {
+	openPageSettings(file: TFile, onClosed?: () => void): void {
 		const published = this.publishedNotes[file.path];
 		if (!published) return;
-		new PageSettingsModal(this.app, this, file, published).open();
+		new PageSettingsModal(this.app, this, file, published, onClosed).open();
 	}
 
 	/**
@@ -635,15 +1032,26 @@ export default class JotBirdPlugin extends Plugin {
 		await this.publishFile(file);
 	}
 
-	async publishFile(file: TFile): Promise<void> {
+	/**
+	 * Publish or update one note. `quiet` is for bulk actions and auto-update:
+	 * no progress, result or warning notices (and no link copied) — the
+	 * returned result carries what they would have said. A quiet publish the
+	 * secret scanner flags is skipped rather than asked about.
+	 */
+	async publishFile(file: TFile, options: { quiet?: boolean } = {}): Promise<NoteActionResult> {
+		const quiet = options.quiet ?? false;
+		if (this.isExcluded(file.path)) {
+			if (!quiet) new Notice(`"${file.basename}" is excluded from publishing in the JotBird settings.`);
+			return { status: "skipped", message: "Excluded from publishing." };
+		}
 		// Guard against double-submit. For a brand-new note, `existing` stays
 		// undefined until the first publish returns and populates
 		// publishedNotes, so a second call that lands during the round-trip
 		// would publish the same note again with a fresh random slug, creating
 		// a duplicate page. Ignore re-entrant calls for the same file.
 		if (this.publishing.has(file.path)) {
-			new Notice("Already publishing this note…");
-			return;
+			if (!quiet) new Notice("Already publishing this note…");
+			return { status: "skipped", message: "Already publishing." };
 		}
 		this.publishing.add(file.path);
 
@@ -651,16 +1059,46 @@ export default class JotBirdPlugin extends Plugin {
 		const existing = this.publishedNotes[file.path];
 
 		const action = existing ? "Updating" : "Publishing";
-		new Notice(`${action}...`);
+		// Stays up for the whole publish, showing upload progress while that
+		// runs; replaced by the result notice once the publish settles.
+		const status = quiet ? null : new Notice(`${action}...`, 0);
 
 		try {
 			const content = await this.app.vault.read(file);
+			const frontmatter: Record<string, unknown> | undefined =
+				this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const attachmentIssues: AttachmentIssue[] = [];
+			const imageSavings = { before: 0, after: 0 };
+			const sanitizedSvgs: { path: string; removed: string[] }[] = [];
+			// Throws UnpublishedLinksError in "block" mode before anything is
+			// uploaded; the catch below shows its list of offending links.
 			const processed = await processMarkdown(
 				content,
 				this.app.vault,
 				this.settings.apiKey,
-				this.settings.stripTags
+				this.settings.stripTags,
+				{
+					...this.publishContext(file, frontmatter),
+					imageSavings,
+					sanitizedSvgs,
+					onUploadProgress: (done, total) => {
+						status?.setMessage(`Uploading attachments ${done}/${total}`);
+					},
+					attachmentIssues,
+				}
+			);
+			// Recorded with the page so later edits can be told apart from ones
+			// that don't change it (see refreshPublishState). The dry run takes
+			// every upload to succeed, so after a failed one none is recorded and
+			// the note stays modified until a republish carries everything over.
+			const incomplete = attachmentIssues.some(
+				(issue) => issue.reason === "upload_failed" || issue.reason === "conversion_failed"
 			);
+			const fingerprint = incomplete ? undefined : await this.computeFingerprint(file, content);
+			if (attachmentIssues.length > 0 && this.settings.abortOnImageIssues) {
+				throw new Error(`Publish cancelled — ${this.describeAttachmentIssues(attachmentIssues)}`);
+			}
+			status?.setMessage(`${action}...`);
 			// Resolve the title and body per the user's title mode. "auto" preserves the
 			// original behavior (inject `# title` only when the body has no heading);
 			// "filename"/"h1" render a dedicated page-title header on the published page.
@@ -668,9 +1106,30 @@ export default class JotBirdPlugin extends Plugin {
 				this.settings.titleMode,
 				processed,
 				content,
-				file
+				file,
+				this.settings.replacementRules
 			);
 
+			// Last look before anything goes public: the finished body and title,
+			// after every transform and replacement rule, are exactly what the page
+			// will show. A title the body doesn't already show is scanned on its own.
+			if (this.settings.scanForSecrets) {
+				const allowlist = parseSecretAllowlist(this.settings.secretAllowlist);
+				const findings = [
+					...(markdown.includes(title) ? [] : scanForSecrets(title, allowlist)),
+					...scanForSecrets(markdown, allowlist),
+				];
+				// Nobody is there to ask in quiet mode: hold the note back and say why
+				if (findings.length > 0 && quiet) {
+					const message = `Not published — possible secrets: ${this.describeSecrets(findings)}.`;
+					return { status: "skipped", message };
+				}
+				if (findings.length > 0 && !(await this.confirmSecrets(file, findings))) {
+					new Notice("Publish cancelled.");
+					return { status: "skipped", message: "Cancelled — possible secrets." };
+				}
+			}
+
 			// Anonymous → account transition. If we now have an API key but this note is
 			// still an anonymous doc (it carries an editToken from an earlier trial/anonymous
 			// publish), claim it to the account BEFORE publishing. Otherwise the account-
@@ -703,10 +1162,7 @@ export default class JotBirdPlugin extends Plugin {
 			// vault defaults > omitted (server preserves). Read from the metadata
 			// cache, NOT gated on storeFrontmatter — that toggle governs writing.
 			// Values go verbatim; the server warns about anything it drops.
-			const resolvedSettings = resolvePagePublishSettings(
-				this.app.metadataCache.getFileCache(file)?.frontmatter,
-				this.settings
-			);
+			const resolvedSettings = resolvePagePublishSettings(frontmatter, this.settings);
 			// Anonymous publishes have no settings channel at all (/trial/publish
 			// takes no settings, and an anonymous page has none). Say so locally —
 			// the server can't warn about a field it never receives, and silently
@@ -714,7 +1170,7 @@ export default class JotBirdPlugin extends Plugin {
 			// warnings exist to prevent. Deduped per note like the server warnings
 			// (same standing-condition spam otherwise: this note would toast on
 			// every single republish).
-			if (!hasApiKey && resolvedSettings) {
+			if (!hasApiKey && resolvedSettings && !quiet) {
 				this.noticeOncePerNote(
 					file,
 					"anonymous",
@@ -775,13 +1231,19 @@ export default class JotBirdPlugin extends Plugin {
 				}
 			}
 
-			this.publishedNotes[file.path] = {
+			const record: PublishedNote = {
 				documentId: result.documentId ?? existing?.documentId,
 				slug: result.slug,
 				url: result.url,
 				editToken: result.editToken,
 				publishedAt: new Date().toISOString(),
+				expiresAt: result.ttlDays ? result.expiresAt : null,
+				fingerprint,
 			};
+			if (this.hasPublishFlag(frontmatter)) record.declared = true;
+			this.publishedNotes[file.path] = record;
+			this.publishStates.set(file.path, fingerprint ? "up-to-date" : "modified");
+			this.refreshPublishIndicators();
 
 			await this.saveSettings();
 			await this.writeFrontmatter(
@@ -798,34 +1260,54 @@ export default class JotBirdPlugin extends Plugin {
 			}
 
 			const verb = (existing && !retried) ? "Updated" : "Published";
+			const outcome: NoteActionResult = { status: verb === "Updated" ? "updated" : "published", url: result.url };
+			if (quiet) {
+				const problems = [
+					...(result.warnings ?? []).map((w) => w.message),
+					...(attachmentIssues.length > 0 ? [this.describeAttachmentIssues(attachmentIssues)] : []),
+				];
+				if (problems.length > 0) outcome.message = problems.join("\n");
+				this.addPropertyIcons();
+				return outcome;
+			}
 			if (this.settings.autoCopyLink) {
 				await navigator.clipboard.writeText(result.url);
 			}
+			const detailMsg =
+				(imageSavings.after < imageSavings.before
+					? `\nImages optimized: ${formatMegabytes(imageSavings.before)} → ${formatMegabytes(imageSavings.after)}.`
+					: "") +
+				sanitizedSvgs.map((s) => `\nRemoved unsafe content from ${s.path}: ${s.removed.join(", ")}.`).join("");
 			if (!hasApiKey) {
 				const copyMsg = this.settings.autoCopyLink ? " Link copied." : "";
 				new Notice(
-					`${verb}!${copyMsg}\nExpires in 30 days — connect a JotBird account for longer links.`,
+					`${verb}!${copyMsg}${detailMsg}\nExpires in 30 days — connect a JotBird account for longer links.`,
 					8000
 				);
 			} else if (this.settings.autoCopyLink) {
-				new Notice(`${verb}! Link copied.`, 5000);
+				new Notice(`${verb}! Link copied.${detailMsg}`, 5000);
 			} else {
-				new Notice(`${verb}!`, 5000);
+				new Notice(`${verb}!${detailMsg}`, 5000);
 			}
 			// Settings the server could not honor (Pro-gated, invalid value, or a
 			// lapsed subscription dropping a preserved setting). The publish itself
 			// succeeded; the server is the authority on what applied — never rely
 			// on a local isPro pre-check, which can be stale.
-			this.noticePublishWarnings(file, result.warnings);
+			// Attachments that didn't make it onto the page ride the same notice.
+			this.noticePublishWarnings(file, result.warnings, attachmentIssues);
 			this.addPropertyIcons();
+			return outcome;
 		} catch (e) {
-			new Notice(`${e instanceof Error ? e.message : "Unknown error"}`, 10000);
+			const message = e instanceof Error ? e.message : "Unknown error";
+			if (!quiet) new Notice(message, 10000);
+			return { status: "failed", message, error: e };
 		} finally {
+			status?.hide();
 			this.publishing.delete(file.path);
 		}
 	}
 
-	private unpublishNote(file: TFile): void {
+	unpublishNote(file: TFile): void {
 		const published = this.publishedNotes[file.path];
 		if (!published) {
 			new Notice("This note is not published.");
@@ -837,31 +1319,406 @@ export default class JotBirdPlugin extends Plugin {
 			`Unpublish "${file.basename}" from JotBird? This will permanently remove it from ${published.url}.`,
 			() => {
 				void (async () => {
-					try {
-						if (this.settings.apiKey) {
-							await deleteDocument(this.settings.apiKey, published.slug, published.documentId);
-						} else {
-							await trialDeleteDocument(
-								published.slug,
-								published.editToken ?? "",
-								this.deviceFingerprint
-							);
-						}
-						delete this.publishedNotes[file.path];
-						await this.saveSettings();
-						await this.clearFrontmatter(file);
+					const result = await this.unpublishFile(file);
+					if (result.status === "unpublished") {
 						new Notice("Note unpublished.");
-					} catch (e) {
-						new Notice(
-							`${e instanceof Error ? e.message : "Unknown error"}`,
-							10000
-						);
+					} else {
+						new Notice(result.message ?? "Unknown error", 10000);
 					}
 				})();
 			}
 		).open();
 	}
 
+	/** Take a published note's page down and forget it, without asking. */
+	private async unpublishFile(file: TFile): Promise<NoteActionResult> {
+		const published = this.publishedNotes[file.path];
+		if (!published) return { status: "skipped", message: "Not published." };
+		try {
+			if (this.settings.apiKey) {
+				await deleteDocument(this.settings.apiKey, published.slug, published.documentId);
+			} else {
+				await trialDeleteDocument(
+					published.slug,
+					published.editToken ?? "",
+					this.deviceFingerprint
+				);
+			}
+			delete this.publishedNotes[file.path];
+			this.publishStates.delete(file.path);
+			this.refreshPublishIndicators();
+			await this.saveSettings();
+			await this.clearFrontmatter(file);
+			return { status: "unpublished" };
+		} catch (e) {
+			return { status: "failed", message: e instanceof Error ? e.message : "Unknown error", error: e };
+		}
+	}
+
+	/** The pipeline's view of the vault for publishing `file` (see PublishContext). */
+	private publishContext(file: TFile, frontmatter: Record<string, unknown> | undefined): PublishContext {
+		return {
+			sourcePath: file.path,
+			metadataCache: this.app.metadataCache,
+			publishedNotes: this.publishedNotes,
+			unpublishedLinks: resolveUnpublishedLinkMode(frontmatter, this.settings.unpublishedLinks),
+			imageCache: this.imageCache,
+			attachmentTypes: parseAttachmentTypes(this.settings.attachmentTypes),
+			maxAttachmentBytes: this.settings.maxAttachmentSizeMB * 1024 * 1024,
+			stripImageMetadata: this.settings.stripImageMetadata,
+			imageOptimization: this.settings.optimizeImages
+				? {
+						maxDimension: this.settings.imageMaxDimension,
+						format: this.settings.imageFormat,
+						quality: this.settings.imageQuality,
+					}
+				: undefined,
+			replacementRules: this.settings.replacementRules,
+			isExcluded: (path) => this.isExcluded(path),
+		};
+	}
+
+	/**
+	 * The fingerprint a publish of `file` would record right now, from a dry
+	 * run of the pipeline: nothing is uploaded. Pass `content` when the note
+	 * has just been read. Throws what the pipeline throws.
+	 */
+	private async computeFingerprint(file: TFile, content?: string): Promise<string> {
+		const text = content ?? (await this.app.vault.read(file));
+		const frontmatter: Record<string, unknown> | undefined =
+			this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const processed = await processMarkdown(text, this.app.vault, this.settings.apiKey, this.settings.stripTags, {
+			...this.publishContext(file, frontmatter),
+			dryRun: true,
+		});
+		const { title, renderTitle, markdown } = applyTitleMode(
+			this.settings.titleMode,
+			processed,
+			text,
+			file,
+			this.settings.replacementRules
+		);
+		const pageSettings = this.settings.apiKey ? resolvePagePublishSettings(frontmatter, this.settings) : undefined;
+		return contentFingerprint(markdown, title, renderTitle, pageSettings);
+	}
+
+	/**
+	 * Where a note stands against its page, as last worked out by
+	 * refreshPublishState. A published note not checked yet this session (see
+	 * refreshPublishStates) is taken to be up to date when its fingerprint is
+	 * on record, and modified when it was published before fingerprints were
+	 * kept.
+	 */
+	getPublishState(file: TFile): PublishState {
+		const published = this.publishedNotes[file.path];
+		if (!published) return "unpublished";
+		return this.publishStates.get(file.path) ?? (published.fingerprint ? "up-to-date" : "modified");
+	}
+
+	/**
+	 * Work out a note's state afresh: a published note is up to date when a
+	 * publish now would record the same fingerprint as its last one.
+	 */
+	async refreshPublishState(file: TFile): Promise<PublishState> {
+		const published = this.publishedNotes[file.path];
+		if (!published) {
+			this.publishStates.delete(file.path);
+			return "unpublished";
+		}
+		let state: PublishState = "modified";
+		if (published.fingerprint) {
+			try {
+				if ((await this.computeFingerprint(file)) === published.fingerprint) state = "up-to-date";
+			} catch {
+				// The pipeline refused (e.g. links blocked in "block" mode); a
+				// republish will say why, so count the note as modified.
+			}
+		}
+		// A publish that finished meanwhile has already recorded the newer state
+		if (this.publishedNotes[file.path] !== published) return this.getPublishState(file);
+		this.publishStates.set(file.path, state);
+		this.refreshPublishIndicators();
+		return state;
+	}
+
+	/**
+	 * Work out every published note's state afresh, one note at a time. Run
+	 * once the workspace is ready, for edits made while Obsidian was closed.
+	 */
+	async refreshPublishStates(): Promise<void> {
+		for (const path of Object.keys(this.publishedNotes)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) await this.refreshPublishState(file);
+		}
+	}
+
+	/** Check an edited published note's state once the edits pause. */
+	private schedulePublishStateRefresh(file: TFile): void {
+		if (file.extension !== "md" || !this.publishedNotes[file.path]) return;
+		const pending = this.stateRefreshTimers.get(file.path);
+		if (pending !== undefined) window.clearTimeout(pending);
+		this.stateRefreshTimers.set(
+			file.path,
+			window.setTimeout(() => {
+				this.stateRefreshTimers.delete(file.path);
+				void this.refreshPublishState(file);
+			}, STATE_REFRESH_DELAY_MS)
+		);
+	}
+
+	/** Republish every published note whose fingerprint shows it changed. */
+	async republishModifiedNotes(): Promise<void> {
+		const modified: TFile[] = [];
+		for (const path of Object.keys(this.publishedNotes).sort((a, b) => a.localeCompare(b))) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || this.isExcluded(file.path)) continue;
+			if ((await this.refreshPublishState(file)) === "modified") modified.push(file);
+		}
+		if (modified.length === 0) {
+			new Notice("All published notes are up to date.");
+			return;
+		}
+		await this.publishMany(`Republishing ${countNotes(modified.length)}`, modified);
+	}
+
+	/**
+	 * Whether edits to a published note republish it automatically: its
+	 * jotbird_auto_update property decides when set (so `false` opts a note out),
+	 * then the auto-update folders, then the global setting.
+	 */
+	shouldAutoUpdate(file: TFile): boolean {
+		const property: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[FM_AUTO_UPDATE];
+		if (typeof property === "boolean") return property;
+		if (isExcludedPath(file.path, parseExclusionPatterns(this.settings.autoUpdateFolders))) return true;
+		return this.settings.autoUpdate;
+	}
+
+	/**
+	 * (Re)start the auto-update countdown for an edited note. Each edit pushes
+	 * the republish back, so it runs once the note has been left alone for
+	 * AUTO_UPDATE_DELAY_MS.
+	 */
+	private scheduleAutoUpdate(file: TFile): void {
+		if (file.extension !== "md" || !this.publishedNotes[file.path] || !this.shouldAutoUpdate(file)) return;
+		const pending = this.autoUpdateTimers.get(file.path);
+		if (pending !== undefined) window.clearTimeout(pending);
+		this.autoUpdateTimers.set(
+			file.path,
+			window.setTimeout(() => {
+				this.autoUpdateTimers.delete(file.path);
+				void this.autoUpdate(file);
+			}, AUTO_UPDATE_DELAY_MS)
+		);
+	}
+
+	/** Republish an edited note quietly, reporting in the status bar. */
+	private async autoUpdate(file: TFile): Promise<void> {
+		if (!this.publishedNotes[file.path]) return;
+		// A publish of this note is in flight (the re-entrancy guard would skip
+		// it): try again once that one has had time to finish.
+		if (this.publishing.has(file.path)) {
+			this.scheduleAutoUpdate(file);
+			return;
+		}
+		// Edits that don't change the page — including the frontmatter write a
+		// publish makes, which fires "modify" too — don't republish.
+		if ((await this.refreshPublishState(file)) === "up-to-date") return;
+
+		this.setAutoUpdateStatus(`JotBird: updating ${file.basename}…`);
+		const result = await this.publishFile(file, { quiet: true });
+		if (result.status === "failed") {
+			this.setAutoUpdateStatus(`JotBird: couldn't update ${file.basename}`, result.message);
+		} else if (result.status === "skipped") {
+			this.setAutoUpdateStatus(`JotBird: didn't update ${file.basename}`, result.message);
+		} else {
+			const time = new Date().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+			this.setAutoUpdateStatus(`JotBird: updated ${file.basename} at ${time}`, result.message);
+		}
+	}
+
+	private setAutoUpdateStatus(text: string, detail?: string): void {
+		this.autoUpdateStatusEl?.setText(text);
+		this.autoUpdateStatusEl?.setAttr("aria-label", detail ?? "");
+	}
+
+	/** Whether a note's properties turn on the publish property (see syncPublishedNotes). */
+	private hasPublishFlag(frontmatter: Record<string, unknown> | undefined): boolean {
+		const property = this.settings.publishProperty.trim();
+		return !!property && frontmatter?.[property] === true;
+	}
+
+	/**
+	 * Make what's published match the publish property: publish the notes that
+	 * have it turned on and aren't published yet or are modified since their
+	 * last publish, then offer to unpublish notes published that way whose property
+	 * was turned off. Notes published by hand, without the property, are left
+	 * alone.
+	 */
+	async syncPublishedNotes(): Promise<void> {
+		const property = this.settings.publishProperty.trim();
+		if (!property) {
+			new Notice("Set a publish property in the JotBird settings to sync published notes.");
+			return;
+		}
+		const isFlagged = (file: TFile) => this.hasPublishFlag(this.app.metadataCache.getFileCache(file)?.frontmatter);
+
+		const toPublish: TFile[] = [];
+		let newlyDeclared = false;
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!isFlagged(file) || this.isExcluded(file.path)) continue;
+			// A note published by hand and flagged since is the property's from
+			// now on, whether or not it needs republishing
+			const published = this.publishedNotes[file.path];
+			if (published && !published.declared) {
+				published.declared = true;
+				newlyDeclared = true;
+			}
+			if ((await this.refreshPublishState(file)) !== "up-to-date") toPublish.push(file);
+		}
+		if (newlyDeclared) await this.saveSettings();
+		toPublish.sort((a, b) => a.path.localeCompare(b.path));
+		const withdrawn = Object.entries(this.publishedNotes)
+			.filter(([, published]) => published.declared)
+			.map(([path]) => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile && !isFlagged(file))
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		if (toPublish.length === 0 && withdrawn.length === 0) {
+			new Notice(`Published notes already match the ${property} property.`);
+			return;
+		}
+		if (toPublish.length > 0) await this.publishMany("Syncing published notes", toPublish);
+		if (withdrawn.length > 0) {
+			const one = withdrawn.length === 1;
+			this.unpublishMany(
+				`Unpublishing ${countNotes(withdrawn.length)}`,
+				withdrawn,
+				`${countNotes(withdrawn.length)} no longer ${one ? "has" : "have"} ${property} turned on: ${withdrawn.map((f) => f.basename).join(", ")}. Unpublish ${one ? "it" : "them"} from JotBird? This will permanently remove ${one ? "its page" : "their pages"}.`
+			);
+		}
+	}
+
+	/** Every Markdown note in `folder` and its subfolders, in path order. */
+	private markdownFilesIn(folder: TFolder): TFile[] {
+		const files: TFile[] = [];
+		const walk = (f: TFolder) => {
+			for (const child of f.children) {
+				if (child instanceof TFolder) walk(child);
+				else if (child instanceof TFile && child.extension === "md") files.push(child);
+			}
+		};
+		walk(folder);
+		return files.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	/** Publish every note in a folder that isn't excluded, after confirming. */
+	publishFolder(folder: TFolder): void {
+		const files = this.markdownFilesIn(folder).filter((f) => !this.isExcluded(f.path));
+		if (files.length === 0) {
+			new Notice(`No notes to publish in "${folder.name}".`);
+			return;
+		}
+		new ConfirmModal(
+			this.app,
+			`Publish ${countNotes(files.length)} in "${folder.name}" to JotBird? Notes already published are updated.`,
+			() => {
+				void this.publishMany(`Publishing "${folder.name}"`, files);
+			}
+		).open();
+	}
+
+	/** Unpublish every published note in a folder, after confirming. */
+	unpublishFolder(folder: TFolder): void {
+		const files = this.markdownFilesIn(folder).filter((f) => this.publishedNotes[f.path]);
+		if (files.length === 0) {
+			new Notice(`No published notes in "${folder.name}".`);
+			return;
+		}
+		this.unpublishMany(
+			`Unpublishing "${folder.name}"`,
+			files,
+			`Unpublish ${countNotes(files.length)} in "${folder.name}" from JotBird? This will permanently remove their pages.`
+		);
+	}
+
+	/** Publish (or update) `files` as one bulk run. */
+	private publishMany(heading: string, files: TFile[]): Promise<NoteActionResult[]> {
+		return this.runBulk(heading, files, (file) => this.publishFile(file, { quiet: true }));
+	}
+
+	/** Unpublish `files` as one bulk run, after confirming with `prompt`. */
+	private unpublishMany(
+		heading: string,
+		files: TFile[],
+		prompt = `Unpublish ${countNotes(files.length)} from JotBird? This will permanently remove their pages.`
+	): void {
+		new ConfirmModal(
+			this.app,
+			prompt,
+			() => {
+				void this.runBulk(heading, files, (file) => this.unpublishFile(file));
+			}
+		).open();
+	}
+
+	/** Copy the selection's page links to the clipboard as a markdown list. */
+	private async copyLinks(files: TFile[]): Promise<void> {
+		const lines = files.map((file) => `- [${file.basename}](${this.publishedNotes[file.path].url})`);
+		await navigator.clipboard.writeText(lines.join("\n"));
+		new Notice(`Copied ${lines.length} link${lines.length === 1 ? "" : "s"} to clipboard`);
+	}
+
+	/** Open each note's page settings in turn, the next once the last is closed. */
+	private openPageSettingsInTurn(files: TFile[]): void {
+		const [first, ...rest] = files;
+		if (first) this.openPageSettings(first, () => this.openPageSettingsInTurn(rest));
+	}
+
+	/**
+	 * Run `action` over `files` one at a time, listing each result in a
+	 * BulkProgressModal. Notes go out BULK_INTERVAL_MS apart to stay under the
+	 * API's rate limit; if it's hit anyway, the note waits out the Retry-After
+	 * and tries again. Cancelling (or closing the modal) stops before the next
+	 * note — the one in flight finishes.
+	 */
+	async runBulk(
+		title: string,
+		files: TFile[],
+		action: (file: TFile) => Promise<NoteActionResult>
+	): Promise<NoteActionResult[]> {
+		const modal = new BulkProgressModal(this.app, title, files.map((f) => f.path));
+		modal.open();
+		const results: NoteActionResult[] = [];
+		for (const [i, file] of files.entries()) {
+			if (i > 0) await this.bulkPause(BULK_INTERVAL_MS, modal);
+			if (modal.cancelled) break;
+			modal.setRunning(i);
+			let result = await action(file);
+			for (let retries = 0; result.error instanceof RateLimitError && retries < MAX_RATE_LIMIT_RETRIES; retries++) {
+				const waitMs = (result.error.retryAfterSeconds ?? RATE_LIMIT_FALLBACK_MS / 1000) * 1000;
+				modal.setWaiting(i, Math.ceil(waitMs / 1000));
+				await this.bulkPause(waitMs, modal);
+				if (modal.cancelled) break;
+				modal.setRunning(i);
+				result = await action(file);
+			}
+			modal.setResult(i, result);
+			results.push(result);
+		}
+		const summary = summarizeResults(results, files.length);
+		modal.finish(summary);
+		new Notice(summary, 8000);
+		return results;
+	}
+
+	/** Wait `ms`, ending early once the bulk action is cancelled. */
+	private async bulkPause(ms: number, modal: BulkProgressModal): Promise<void> {
+		const until = Date.now() + ms;
+		while (!modal.cancelled && Date.now() < until) {
+			await new Promise((resolve) => window.setTimeout(resolve, Math.min(250, until - Date.now())));
+		}
+	}
+
 	private async showDocumentList(): Promise<void> {
 		if (!this.requireApiKey()) return;
 
@@ -877,6 +1734,17 @@ export default class JotBirdPlugin extends Plugin {
 		}
 	}
 
+	private async clearImageCache(): Promise<void> {
+		const count = Object.keys(this.imageCache).length;
+		this.imageCache = {};
+		await this.saveSettings();
+		new Notice(
+			count > 0
+				? `Cleared ${count} cached image upload${count === 1 ? "" : "s"}.`
+				: "The image upload cache is already empty."
+		);
+	}
+
 	private async claimAnonymousDocuments(): Promise<void> {
 		if (!this.settings.apiKey) return;
 
@@ -895,13 +1763,15 @@ export default class JotBirdPlugin extends Plugin {
 					note.editToken!
 				);
 
-				// Update the local record: remove editToken, update URL
-				this.publishedNotes[filePath] = {
+				// Update the local record: remove editToken, update URL and expiry
+				const owned: PublishedNote = {
+					...note,
 					slug: result.slug,
 					url: result.url,
-					publishedAt: note.publishedAt,
-					// editToken intentionally omitted — doc is now account-owned
+					expiresAt: result.ttlDays ? result.expiresAt : null,
 				};
+				delete owned.editToken; // doc is now account-owned
+				this.publishedNotes[filePath] = owned;
 
 				// Update frontmatter with new expiration
 				const file = this.app.vault.getAbstractFileByPath(filePath);
@@ -921,6 +1791,7 @@ export default class JotBirdPlugin extends Plugin {
 		}
 
 		if (claimed > 0) {
+			this.refreshPublishIndicators();
 			await this.saveSettings();
 			new Notice(
 				`${claimed} existing document${claimed === 1 ? "" : "s"} linked to your account.`
@@ -929,6 +1800,12 @@ export default class JotBirdPlugin extends Plugin {
 	}
 
 	private async refreshProExpiration(excludePath: string): Promise<void> {
+		// Pro pages never expire, including those published before the upgrade
+		for (const note of Object.values(this.publishedNotes)) {
+			if (!note.editToken) note.expiresAt = null;
+		}
+		this.refreshPublishIndicators();
+		await this.saveSettings();
 		if (!this.settings.storeFrontmatter) return;
 
 		let updated = 0;
@@ -1033,6 +1910,7 @@ export default class JotBirdPlugin extends Plugin {
 		this.publishedNotes = data.publishedNotes ?? {};
 		this.deviceFingerprint = data.deviceFingerprint || crypto.randomUUID();
 		this.proRefreshDone = !!data.proRefreshDone;
+		this.imageCache = data.imageCache ?? {};
 	}
 
 	async saveSettings(): Promise<void> {
@@ -1041,6 +1919,7 @@ export default class JotBirdPlugin extends Plugin {
 			publishedNotes: this.publishedNotes,
 			deviceFingerprint: this.deviceFingerprint,
 			proRefreshDone: this.proRefreshDone,
+			imageCache: this.imageCache,
 		};
 		await this.saveData(data);
 	}
@@ -1,14 +1,36 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { TFile, Vault } from "obsidian";
-import { processMarkdown, extractTitle, applyTitleMode } from "./markdown";
-
-// Mock the api module to control uploadImage behavior
+import { MetadataCache, TFile, Vault } from "obsidian";
+import {
+	processMarkdown,
+	extractTitle,
+	applyTitleMode,
+	resolveUnpublishedLinkMode,
+	parseAttachmentTypes,
+	UnpublishedLinksError,
+	contentFingerprint,
+	type PublishContext,
+} from "./markdown";
+import type { AttachmentIssue, PublishedNote, UnpublishedLinkMode } from "./types";
+
+// Mock the api module to control uploadAttachment behavior
 vi.mock("./api", () => ({
-	uploadImage: vi.fn(),
+	uploadAttachment: vi.fn(),
+	imageUrlExists: vi.fn(),
+}));
+
+vi.mock("./images", () => ({
+	optimizeImage: vi.fn(async (image: unknown) => image),
+	stripImageMetadata: vi.fn(async (image: unknown) => image),
+	convertImage: vi.fn(async () => null),
 }));
 
-import { uploadImage } from "./api";
-const mockUploadImage = vi.mocked(uploadImage);
+import { imageUrlExists, uploadAttachment } from "./api";
+import { convertImage, optimizeImage, stripImageMetadata } from "./images";
+const mockUploadAttachment = vi.mocked(uploadAttachment);
+const mockOptimizeImage = vi.mocked(optimizeImage);
+const mockStripImageMetadata = vi.mocked(stripImageMetadata);
+const mockConvertImage = vi.mocked(convertImage);
+const mockImageUrlExists = vi.mocked(imageUrlExists);
 
 function makeFile(path: string, basename?: string, extension?: string): TFile {
 	const file = new TFile();
@@ -25,6 +47,32 @@ function makeVault(files: TFile[] = []): Vault {
 	return vault;
 }
 
+/**
+ * A publish context whose link resolver behaves like Obsidian's over `files`:
+ * a path relative to the source note ("./", "../"), an exact vault path, or
+ * the shortest path (a bare name or trailing path segment) resolves.
+ */
+function linkContext(files: TFile[], sourcePath = "note.md"): PublishContext {
+	const metadataCache = new MetadataCache();
+	metadataCache.getFirstLinkpathDest = vi.fn((linkpath: string, source: string) => {
+		if (linkpath.startsWith("./") || linkpath.startsWith("../")) {
+			const parts = source.split("/").slice(0, -1);
+			for (const segment of linkpath.split("/")) {
+				if (segment === "..") parts.pop();
+				else if (segment !== ".") parts.push(segment);
+			}
+			const resolved = parts.join("/");
+			return files.find((f) => f.path === resolved) ?? null;
+		}
+		return (
+			files.find((f) => f.path === linkpath) ??
+			files.find((f) => f.path.endsWith("/" + linkpath) || f.name === linkpath) ??
+			null
+		);
+	});
+	return { sourcePath, metadataCache, publishedNotes: {} };
+}
+
 // ---- Frontmatter stripping ----
 
 describe("frontmatter stripping", () => {
@@ -109,6 +157,287 @@ describe("wiki link conversion", () => {
 	});
 });
 
+// ---- Links between published notes ----
+
+describe("wiki links to published notes", () => {
+	const runbook: PublishedNote = {
+		slug: "runbook",
+		url: "https://share.jotbird.com/runbook",
+		publishedAt: "2026-01-01T00:00:00.000Z",
+	};
+
+	/** A context where `[[<basename>]]` resolves to the given vault files. */
+	function makeContext(files: TFile[], publishedNotes: Record<string, PublishedNote>): PublishContext {
+		const metadataCache = new MetadataCache();
+		metadataCache.getFirstLinkpathDest = vi.fn((linkpath: string) =>
+			files.find((f) => f.basename === linkpath || f.path === linkpath) ?? null
+		);
+		return { sourcePath: "notes/source.md", metadataCache, publishedNotes };
+	}
+
+	it("rewrites a link to a published note as a markdown link to its page", async () => {
+		const ctx = makeContext([makeFile("ops/Runbook.md", "Runbook")], { "ops/Runbook.md": runbook });
+		const result = await processMarkdown("See [[Runbook]] first", makeVault(), "key", false, ctx);
+		expect(result).toBe("See [Runbook](https://share.jotbird.com/runbook) first");
+		expect(ctx.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("Runbook", "notes/source.md");
+	});
+
+	it("keeps the alias as the link text", async () => {
+		const ctx = makeContext([makeFile("ops/Runbook.md", "Runbook")], { "ops/Runbook.md": runbook });
+		const result = await processMarkdown("See [[Runbook|the runbook]]", makeVault(), "key", false, ctx);
+		expect(result).toBe("See [the runbook](https://share.jotbird.com/runbook)");
+	});
+
+	it("maps a heading subpath to the heading anchor", async () => {
+		const ctx = makeContext([makeFile("ops/Runbook.md", "Runbook")], { "ops/Runbook.md": runbook });
+		const result = await processMarkdown("[[Runbook#Step 2: Roll back!]]", makeVault(), "key", false, ctx);
+		expect(result).toBe("[Runbook > Step 2: Roll back!](https://share.jotbird.com/runbook#step-2-roll-back)");
+	});
+
+	it("links a block reference to the page without an anchor", async () => {
+		const ctx = makeContext([makeFile("ops/Runbook.md", "Runbook")], { "ops/Runbook.md": runbook });
+		const result = await processMarkdown("[[Runbook#^abc123|that step]]", makeVault(), "key", false, ctx);
+		expect(result).toBe("[that step](https://share.jotbird.com/runbook)");
+	});
+
+	it("keeps a same-note heading link on the page", async () => {
+		const ctx = makeContext([], {});
+		const result = await processMarkdown("Jump to [[#Rollback Plan]]", makeVault(), "key", false, ctx);
+		expect(result).toBe("Jump to [Rollback Plan](#rollback-plan)");
+	});
+
+	it("points a markdown link to a published note at its page", async () => {
+		const ctx = makeContext([makeFile("ops/Run book.md", "Run book")], { "ops/Run book.md": runbook });
+		const input = "See [the steps](ops/Run%20book.md#Roll%20back) and ![](ops/Run%20book.md)";
+		const result = await processMarkdown(input, makeVault(), "key", false, ctx);
+		expect(result).toBe("See [the steps](https://share.jotbird.com/runbook#roll-back) and ![](ops/Run%20book.md)");
+	});
+
+	it("flattens a link to a note that isn't published", async () => {
+		const ctx = makeContext([makeFile("ops/Draft.md", "Draft")], { "ops/Runbook.md": runbook });
+		const result = await processMarkdown("See [[Draft|the draft]] and [[Missing]]", makeVault(), "key", false, ctx);
+		expect(result).toBe("See the draft and Missing");
+	});
+
+	it("never turns an embed into a link", async () => {
+		const ctx = makeContext([makeFile("ops/Runbook.md", "Runbook")], { "ops/Runbook.md": runbook });
+		const vault = makeVault();
+		vault.read = vi.fn().mockResolvedValue("Runbook body");
+		const result = await processMarkdown("![[Runbook]]", vault, "key", false, ctx);
+		expect(result).toBe("Runbook body");
+	});
+
+	describe("links to unpublished notes", () => {
+		const files = [makeFile("ops/Runbook.md", "Runbook"), makeFile("clients/Acme.md", "Acme")];
+		const input = "See [[Runbook]], [[Acme|the client]] and [[Project Falcon]].";
+
+		it("keeps the link text by default", async () => {
+			const ctx = makeContext(files, { "ops/Runbook.md": runbook });
+			const result = await processMarkdown(input, makeVault(), "key", false, ctx);
+			expect(result).toBe("See [Runbook](https://share.jotbird.com/runbook), the client and Project Falcon.");
+		});
+
+		it("replaces the link with a placeholder in redact mode", async () => {
+			const ctx = { ...makeContext(files, { "ops/Runbook.md": runbook }), unpublishedLinks: "redact" as const };
+			const result = await processMarkdown(input, makeVault(), "key", false, ctx);
+			expect(result).toBe(
+				"See [Runbook](https://share.jotbird.com/runbook), (private note) and (private note)."
+			);
+		});
+
+		it("drops the link in remove mode", async () => {
+			const ctx = { ...makeContext(files, { "ops/Runbook.md": runbook }), unpublishedLinks: "remove" as const };
+			const result = await processMarkdown(input, makeVault(), "key", false, ctx);
+			expect(result).toBe("See [Runbook](https://share.jotbird.com/runbook),  and .");
+		});
+
+		it("handles markdown links to notes like wiki links", async () => {
+			const text = "See [the client](clients/Acme.md), [plans](Project%20Falcon.md#Scope) and [the runbook](ops/Runbook.md).";
+			const published = "[the runbook](https://share.jotbird.com/runbook)";
+			const mode = (unpublishedLinks: UnpublishedLinkMode) => ({
+				...makeContext(files, { "ops/Runbook.md": runbook }),
+				unpublishedLinks,
+			});
+			await expect(processMarkdown(text, makeVault(), "key", false, mode("text"))).resolves.toBe(
+				`See the client, plans and ${published}.`
+			);
+			await expect(processMarkdown(text, makeVault(), "key", false, mode("redact"))).resolves.toBe(
+				`See (private note), (private note) and ${published}.`
+			);
+			await expect(processMarkdown(text, makeVault(), "key", false, mode("remove"))).resolves.toBe(
+				`See ,  and ${published}.`
+			);
+			const error = await processMarkdown(text, makeVault(), "key", false, mode("block")).catch((e: unknown) => e);
+			expect((error as UnpublishedLinksError).links).toEqual([
+				"[the client](clients/Acme.md)",
+				"[plans](Project%20Falcon.md#Scope)",
+			]);
+		});
+
+		it("never redacts a block reference within the note itself", async () => {
+			const ctx = { ...makeContext([], {}), unpublishedLinks: "redact" as const };
+			const result = await processMarkdown("As noted in [[#^summary|the summary]]", makeVault(), "key", false, ctx);
+			expect(result).toBe("As noted in the summary");
+		});
+
+		it("blocks the publish, listing each offending link, before uploading anything", async () => {
+			mockUploadAttachment.mockReset();
+			const image = makeFile("photo.png", "photo", "png");
+			const vault = makeVault([image]);
+			vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+			const ctx = { ...makeContext(files, { "ops/Runbook.md": runbook }), unpublishedLinks: "block" as const };
+
+			const error = await processMarkdown(`![[photo.png]]\n${input}\n[[Acme|again]]`, vault, "key", false, ctx).catch(
+				(e: unknown) => e
+			);
+
+			expect(error).toBeInstanceOf(UnpublishedLinksError);
+			expect((error as UnpublishedLinksError).links).toEqual([
+				"[[Acme|the client]]",
+				"[[Project Falcon]]",
+				"[[Acme|again]]",
+			]);
+			expect((error as Error).message).toContain("• [[Project Falcon]]");
+			expect(mockUploadAttachment).not.toHaveBeenCalled();
+		});
+
+		it("leaves links to attachments alone", async () => {
+			const attachments = [makeFile("docs/report.pdf", "report", "pdf"), makeFile("img.png", "img", "png")];
+			const text = "See [[report.pdf]] and [[img.png|the chart]].";
+			const block = { ...linkContext(attachments), unpublishedLinks: "block" as const };
+			await expect(processMarkdown(text, makeVault(), "key", false, block)).resolves.toBe(
+				"See report.pdf and the chart."
+			);
+			const redact = { ...linkContext(attachments), unpublishedLinks: "redact" as const };
+			await expect(processMarkdown(text, makeVault(), "key", false, redact)).resolves.toBe(
+				"See report.pdf and the chart."
+			);
+		});
+
+		it("does not block on a link hidden in a comment", async () => {
+			const ctx = { ...makeContext(files, {}), unpublishedLinks: "block" as const };
+			const result = await processMarkdown("Public %%see [[Acme]]%% text", makeVault(), "key", false, ctx);
+			expect(result).toBe("Public  text");
+		});
+
+		it("redacts or removes a link inside an HTML block, as in text", async () => {
+			const input = "<div>\nSee [[Acme]]\n</div>";
+			const redact = { ...makeContext(files, {}), unpublishedLinks: "redact" as const };
+			await expect(processMarkdown(input, makeVault(), "key", false, redact)).resolves.toBe(
+				"<div>\nSee (private note)\n</div>"
+			);
+			const remove = { ...makeContext(files, {}), unpublishedLinks: "remove" as const };
+			await expect(processMarkdown(input, makeVault(), "key", false, remove)).resolves.toBe("<div>\nSee \n</div>");
+		});
+
+		it("blocks on a link inside an HTML block", async () => {
+			const ctx = { ...makeContext(files, {}), unpublishedLinks: "block" as const };
+			const error = await processMarkdown("<div>\nSee [[Acme]]\n</div>", makeVault(), "key", false, ctx).catch(
+				(e: unknown) => e
+			);
+			expect(error).toBeInstanceOf(UnpublishedLinksError);
+			expect((error as UnpublishedLinksError).links).toEqual(["[[Acme]]"]);
+		});
+	});
+});
+
+describe("resolveUnpublishedLinkMode", () => {
+	it("uses the note property when it names a mode", () => {
+		expect(resolveUnpublishedLinkMode({ jotbird_unpublished_links: "block" }, "text")).toBe("block");
+	});
+
+	it("falls back to the vault setting when the property is absent or unknown", () => {
+		expect(resolveUnpublishedLinkMode(undefined, "redact")).toBe("redact");
+		expect(resolveUnpublishedLinkMode({ jotbird_unpublished_links: "hide" }, "redact")).toBe("redact");
+	});
+});
+
+// ---- Note transclusion ----
+
+describe("note transclusion", () => {
+	/** A vault of markdown notes resolvable by basename, plus their contents. */
+	function setup(notes: Record<string, string>) {
+		const files = Object.keys(notes).map((path) => makeFile(path));
+		const vault = makeVault(files);
+		vault.read = vi.fn(async (file: TFile) => notes[file.path]);
+		const metadataCache = new MetadataCache();
+		metadataCache.getFirstLinkpathDest = vi.fn(
+			(linkpath: string) => files.find((f) => f.basename === linkpath) ?? null
+		);
+		const ctx: PublishContext = { sourcePath: "main.md", metadataCache, publishedNotes: {} };
+		return { vault, ctx };
+	}
+
+	it("inlines the embedded note's body through the same processing", async () => {
+		const { vault, ctx } = setup({
+			"shared/Intro.md": "---\nsecret: yes\n---\nWelcome %%draft%%text #wip",
+		});
+		const result = await processMarkdown("# Main\n\n![[Intro]]\n\nEnd", vault, "key", true, ctx);
+		expect(result).toBe("# Main\n\nWelcome text\n\nEnd");
+	});
+
+	it("inlines only the referenced heading section", async () => {
+		const { vault, ctx } = setup({
+			"Guide.md": "# Guide\n\n## Setup\n\nInstall it.\n\n### Details\n\nMore.\n\n## Usage\n\nRun it.",
+		});
+		const result = await processMarkdown("![[Guide#Setup]]", vault, "key", false, ctx);
+		expect(result).toBe("## Setup\n\nInstall it.\n\n### Details\n\nMore.");
+	});
+
+	it("ignores headings inside fenced code when finding a section's end", async () => {
+		const { vault, ctx } = setup({
+			"Guide.md": "## Setup\n\n```sh\n# not a heading\n```\n\nStill setup.\n\n## Usage",
+		});
+		const result = await processMarkdown("![[Guide#setup]]", vault, "key", false, ctx);
+		expect(result).toBe("## Setup\n\n```sh\n# not a heading\n```\n\nStill setup.");
+	});
+
+	it("inlines only the referenced block, without its marker", async () => {
+		const { vault, ctx } = setup({
+			"Notes.md": "Intro.\n\nKey finding spans\ntwo lines. ^finding\n\n- item one\n- item two ^item2\n\n| a |\n| - |\n\n^table",
+		});
+		expect(await processMarkdown("![[Notes#^finding]]", vault, "key", false, ctx)).toBe(
+			"Key finding spans\ntwo lines."
+		);
+		expect(await processMarkdown("![[Notes^item2]]", vault, "key", false, ctx)).toBe("- item two");
+		expect(await processMarkdown("![[Notes#^table]]", vault, "key", false, ctx)).toBe("| a |\n| - |");
+	});
+
+	it("follows nested embeds, resolving each against its own note", async () => {
+		const { vault, ctx } = setup({ "A.md": "A says ![[B]]", "B.md": "B here" });
+		const result = await processMarkdown("![[A]]", vault, "key", false, ctx);
+		expect(result).toBe("A says B here");
+		expect(ctx.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("B", "A.md");
+	});
+
+	it("stops at a cycle instead of recursing forever", async () => {
+		const { vault, ctx } = setup({ "A.md": "A ![[B]]", "B.md": "B ![[A]]" });
+		const result = await processMarkdown("![[A]]", vault, "key", false, ctx);
+		expect(result).toBe("A B !A");
+	});
+
+	it("stops at the depth limit", async () => {
+		const notes: Record<string, string> = {};
+		for (let i = 1; i <= 8; i++) notes[`N${i}.md`] = `${i} ![[N${i + 1}]]`;
+		const { vault, ctx } = setup(notes);
+		const result = await processMarkdown("![[N1]]", vault, "key", false, ctx);
+		expect(result).toBe("1 2 3 4 5 !N6");
+	});
+
+	it("leaves an embed of a missing heading or block untouched", async () => {
+		const { vault, ctx } = setup({ "Guide.md": "## Setup\n\nText" });
+		expect(await processMarkdown("![[Guide#Nope]]", vault, "key", false, ctx)).toBe("!Guide#Nope");
+		expect(await processMarkdown("![[Guide#^nope]]", vault, "key", false, ctx)).toBe("!Guide#^nope");
+	});
+
+	it("does not inline embeds inside code", async () => {
+		const { vault, ctx } = setup({ "Intro.md": "Welcome" });
+		const result = await processMarkdown("Use `![[Intro]]` to embed", vault, "key", false, ctx);
+		expect(result).toBe("Use `![[Intro]]` to embed");
+		expect(vault.read).not.toHaveBeenCalled();
+	});
+});
+
 // ---- Comment stripping ----
 
 describe("comment stripping", () => {
@@ -140,6 +469,181 @@ After`;
 		const result = await processMarkdown(input, makeVault(), "key", false);
 		expect(result).toBe("No comments here % just a percent sign");
 	});
+
+	it("keeps %% inside code", async () => {
+		const input = "```\nprintf(\"%%d\");\nx = 5 %% 2;\n```\nand `%%` too %%but not this%%";
+		const result = await processMarkdown(input, makeVault(), "key", false);
+		expect(result).toBe("```\nprintf(\"%%d\");\nx = 5 %% 2;\n```\nand `%%` too");
+	});
+
+	it("strips a comment that contains a code block", async () => {
+		const input = "Before\n%%\n```\nsecret\n```\n%%\nAfter";
+		const result = await processMarkdown(input, makeVault(), "key", false);
+		expect(result).toBe("Before\n\nAfter");
+	});
+
+	it("strips a comment inside an HTML block", async () => {
+		const input = "<details>\n<summary>Ref</summary>\n%%internal reviewer note%%\nSee the spec.\n</details>";
+		const result = await processMarkdown(input, makeVault(), "key", false);
+		expect(result).toBe("<details>\n<summary>Ref</summary>\n\nSee the spec.\n</details>");
+	});
+
+	it("leaves an unclosed %% as written", async () => {
+		const result = await processMarkdown("100%% sure", makeVault(), "key", false);
+		expect(result).toBe("100%% sure");
+	});
+});
+
+// ---- Code-aware transforms ----
+
+describe("code-aware transforms", () => {
+	it("leaves wiki links in inline code and fenced code as written", async () => {
+		const input = "Write `[[Page]]` like so:\n\n~~~\n[[Page|alias]]\n~~~\n\nthen [[Page]]";
+		const result = await processMarkdown(input, makeVault(), "key", false);
+		expect(result).toBe("Write `[[Page]]` like so:\n\n~~~\n[[Page|alias]]\n~~~\n\nthen Page");
+	});
+
+	it("leaves code inside callouts alone", async () => {
+		const input = "> [!example]\n> ```\n> [[Page]] %%x%%\n> ```";
+		const result = await processMarkdown(input, makeVault(), "key", false);
+		expect(result).toBe(input);
+	});
+
+	it("leaves math alone", async () => {
+		const input = "$$\n\\text{[[Page]]} %% 2\n$$\nand $[[a]]$ but [[Page]]";
+		const result = await processMarkdown(input, makeVault(), "key", false);
+		expect(result).toBe("$$\n\\text{[[Page]]} %% 2\n$$\nand $[[a]]$ but Page");
+	});
+
+	it("leaves raw HTML blocks alone", async () => {
+		const input = "<pre>\n[[Page]] #tag\n</pre>\n\n<script>\nconst grid = [[1, 2]];\n</script>";
+		const result = await processMarkdown(input, makeVault(), "key", true);
+		expect(result).toBe(input);
+	});
+
+	it("converts wiki links inside other HTML blocks and comments, leaving their tags alone", async () => {
+		const input = "<table>\n<tr><td>[[Page]] #tag</td></tr>\n</table>\n\n<!-- [[Page|alias]] -->";
+		const result = await processMarkdown(input, makeVault(), "key", true);
+		expect(result).toBe("<table>\n<tr><td>Page #tag</td></tr>\n</table>\n\n<!-- alias -->");
+	});
+
+	it("does not upload images referenced inside code", async () => {
+		mockUploadAttachment.mockReset();
+		const img = makeFile("pic.png", "pic", "png");
+		const vault = makeVault([img]);
+		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(4));
+		mockUploadAttachment.mockResolvedValue({ url: "https://cdn.example.com/pic.png" });
+
+		const input = "`![[pic.png]]`\n\n![[pic.png]]";
+		const result = await processMarkdown(input, vault, "key", false, linkContext([img]));
+		expect(result).toBe("`![[pic.png]]`\n\n![](https://cdn.example.com/pic.png)");
+	});
+});
+
+// ---- Replacement rules ----
+
+describe("replacement rules", () => {
+	it("run after the built-in transforms, on embedded notes too", async () => {
+		const intro = makeFile("Work/Intro.md");
+		const vault = makeVault([intro]);
+		vault.read = vi.fn().mockResolvedValue("Ping @alice");
+		const ctx: PublishContext = {
+			...linkContext([intro], "Work/note.md"),
+			replacementRules: [
+				{ find: "@\\w+", replace: "@someone", regex: true, enabled: true, folder: "Work" },
+				{ find: "Page", replace: "Doc", regex: false, enabled: true, folder: "" },
+			],
+		};
+		const result = await processMarkdown("[[Page]] %%@bob%%\n\n![[Intro.md]]", vault, "key", false, ctx);
+		expect(result).toBe("Doc \n\nPing @someone");
+	});
+
+	it("skip rules scoped to another folder", async () => {
+		const ctx: PublishContext = {
+			...linkContext([], "Personal/note.md"),
+			replacementRules: [{ find: "x", replace: "y", regex: false, enabled: true, folder: "Work" }],
+		};
+		expect(await processMarkdown("x", makeVault(), "key", false, ctx)).toBe("x");
+	});
+});
+
+// ---- Excluded paths ----
+
+describe("excluded paths", () => {
+	it("drops and reports excluded attachments and embedded notes", async () => {
+		mockUploadAttachment.mockReset();
+		const scan = makeFile("Private/scan.png", "scan", "png");
+		const diary = makeFile("Private/Diary.md");
+		const vault = makeVault([scan, diary]);
+		const attachmentIssues: AttachmentIssue[] = [];
+		const ctx: PublishContext = {
+			...linkContext([scan, diary]),
+			isExcluded: (path) => path.startsWith("Private/"),
+			attachmentIssues,
+		};
+
+		const input = "A ![[scan.png]] B\n\n![[Diary.md]]\n\nC [pdf](Private/scan.png)";
+		const result = await processMarkdown(input, vault, "key", false, ctx);
+
+		expect(result).toBe("A  B\n\n\n\nC");
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(vault.read).not.toHaveBeenCalled();
+		expect(attachmentIssues.map((i) => [i.reference, i.reason])).toEqual([
+			["![[Diary.md]]", "excluded"],
+			["![[scan.png]]", "excluded"],
+			["[pdf](Private/scan.png)", "excluded"],
+		]);
+	});
+});
+
+// ---- Private sections ----
+
+describe("private sections", () => {
+	async function run(input: string): Promise<string> {
+		return processMarkdown(input, makeVault(), "key", false);
+	}
+
+	it("drops private callouts, keeping other callouts", async () => {
+		const input = "Intro\n> [!private]- Reviewer notes\n> Don't ship this\n> ```\n> code\n> ```\n\n> [!note]\n> Public";
+		expect(await run(input)).toBe("Intro\n\n> [!note]\n> Public");
+	});
+
+	it("drops what's between private markers", async () => {
+		const input = "A\n<!-- jotbird:private -->\nSecret `code`\n\nMore\n<!-- /jotbird:private -->\nB";
+		expect(await run(input)).toBe("A\nB");
+		expect(await run("Keep <!-- jotbird:private -->this<!-- /jotbird:private --> that")).toBe("Keep  that");
+	});
+
+	it("drops everything after an unclosed private marker", async () => {
+		expect(await run("A\n<!-- jotbird:private -->\nB\n\nC")).toBe("A");
+	});
+
+	it("drops a heading tagged #private and its section", async () => {
+		const input = [
+			"# Doc",
+			"## Internal #private",
+			"secret",
+			"### Detail",
+			"more secret",
+			"## Public",
+			"text",
+		].join("\n");
+		expect(await run(input)).toBe("# Doc\n## Public\ntext");
+	});
+
+	it("ignores markers and tags inside code", async () => {
+		const input = "```\n## Internal #private\n<!-- jotbird:private -->\n```\nAfter";
+		expect(await run(input)).toBe(input);
+	});
+
+	it("never uploads images or checks links in private sections", async () => {
+		mockUploadAttachment.mockReset();
+		const img = makeFile("pic.png", "pic", "png");
+		const ctx = { ...linkContext([img]), unpublishedLinks: "block" as const };
+		const input = "> [!private]\n> ![[pic.png]] [[Secret plan]]\n\nPublic";
+		expect(await processMarkdown(input, makeVault([img]), "key", false, ctx)).toBe("Public");
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+	});
 });
 
 // ---- Callout passthrough ----
@@ -190,13 +694,42 @@ describe("tag stripping", () => {
 		const result = await processMarkdown(input, makeVault(), "key", true);
 		expect(result).toBe("");
 	});
+
+	it("leaves anchors in link destinations and URLs", async () => {
+		const input = "See [docs](<Setup guide.md #install>) or https://example.com/#top #tag";
+		const result = await processMarkdown(input, makeVault(), "key", true);
+		expect(result).toBe("See [docs](<Setup guide.md #install>) or https://example.com/#top");
+	});
+
+	it("leaves #anchors in code, math and HTML", async () => {
+		const input = [
+			"```css",
+			"a { color: #fff; }",
+			"```",
+			"",
+			"    #indented code",
+			"",
+			"Inline `#not-a-tag` and $x #y$ #tag",
+			"",
+			'<div id="x">',
+			"#heading-ish",
+			"</div>",
+		].join("\n");
+		const result = await processMarkdown(input, makeVault(), "key", true);
+		expect(result).toBe(input.replace("#tag", ""));
+	});
+
+	it("does not treat text after inline code as a line start", async () => {
+		const result = await processMarkdown("`x`#tag", makeVault(), "key", true);
+		expect(result).toBe("`x`#tag");
+	});
 });
 
 // ---- Image processing ----
 
 describe("image processing", () => {
 	beforeEach(() => {
-		mockUploadImage.mockReset();
+		mockUploadAttachment.mockReset();
 	});
 
 	it("uploads wiki-style local images and rewrites paths", async () => {
@@ -208,12 +741,29 @@ describe("image processing", () => {
 
 		const vault = makeVault([imageFile]);
 		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
-		mockUploadImage.mockResolvedValue({ url: "https://share.jotbird.com/images/abc.png" });
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/abc.png" });
 
 		const input = "Here is an image ![[photo.png]]";
-		const result = await processMarkdown(input, vault, "key", false);
+		const result = await processMarkdown(input, vault, "key", false, linkContext([imageFile]));
 		expect(result).toBe("Here is an image ![](https://share.jotbird.com/images/abc.png)");
-		expect(mockUploadImage).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "photo.png", "image/png");
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "photo.png", "image/png");
+	});
+
+	it("uploads an image inside an HTML block", async () => {
+		const imageFile = makeFile("img.png", "img", "png");
+		const vault = makeVault([imageFile]);
+		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/img.png" });
+		const issues: AttachmentIssue[] = [];
+
+		const input = '<div align="center">\n![[img.png]]\n</div>';
+		const result = await processMarkdown(input, vault, "key", false, {
+			...linkContext([imageFile]),
+			attachmentIssues: issues,
+		});
+		expect(result).toBe('<div align="center">\n![](https://share.jotbird.com/images/img.png)\n</div>');
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(1);
+		expect(issues).toEqual([]);
 	});
 
 	it("uploads wiki-style images with alt text", async () => {
@@ -225,10 +775,10 @@ describe("image processing", () => {
 
 		const vault = makeVault([imageFile]);
 		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
-		mockUploadImage.mockResolvedValue({ url: "https://share.jotbird.com/images/def.jpg" });
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/def.jpg" });
 
 		const input = "![[img.jpg|my alt text]]";
-		const result = await processMarkdown(input, vault, "key", false);
+		const result = await processMarkdown(input, vault, "key", false, linkContext([imageFile]));
 		expect(result).toBe("![](https://share.jotbird.com/images/def.jpg)");
 	});
 
@@ -246,11 +796,11 @@ describe("image processing", () => {
 
 		const vault = makeVault([imageFile]);
 		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
-		mockUploadImage.mockResolvedValue({ url: "https://share.jotbird.com/images/enc.png" });
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/enc.png" });
 
 		const input = "![](assets/Pasted%20image%2020260706.png)";
-		const result = await processMarkdown(input, vault, "key", false);
-		expect(mockUploadImage).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "Pasted image 20260706.png", "image/png");
+		const result = await processMarkdown(input, vault, "key", false, linkContext([imageFile]));
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "Pasted image 20260706.png", "image/png");
 		expect(result).toBe("![](https://share.jotbird.com/images/enc.png)");
 	});
 
@@ -263,10 +813,10 @@ describe("image processing", () => {
 
 		const vault = makeVault([imageFile]);
 		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
-		mockUploadImage.mockResolvedValue({ url: "https://share.jotbird.com/images/xyz.png" });
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/xyz.png" });
 
 		const input = "![My chart](images/chart.png)";
-		const result = await processMarkdown(input, vault, "key", false);
+		const result = await processMarkdown(input, vault, "key", false, linkContext([imageFile]));
 		expect(result).toBe("![My chart](https://share.jotbird.com/images/xyz.png)");
 	});
 
@@ -274,13 +824,13 @@ describe("image processing", () => {
 		const input = "![External](https://example.com/photo.png)";
 		const result = await processMarkdown(input, makeVault(), "key", false);
 		expect(result).toBe("![External](https://example.com/photo.png)");
-		expect(mockUploadImage).not.toHaveBeenCalled();
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
 	});
 
 	it("skips images that cannot be found in the vault", async () => {
 		const vault = makeVault([]); // No files in vault
 		const input = "![[missing.png]]";
-		const result = await processMarkdown(input, vault, "key", false);
+		const result = await processMarkdown(input, vault, "key", false, linkContext([]));
 		// Image not found, so ![[missing.png]] stays, then convertWikiLinks turns it to !missing.png
 		expect(result).toBe("!missing.png");
 	});
@@ -304,7 +854,7 @@ describe("image processing", () => {
 		vault.readBinary = vi.fn().mockRejectedValue(new Error("read error"));
 
 		const input = "![[fail.png]]";
-		const result = await processMarkdown(input, vault, "key", false);
+		const result = await processMarkdown(input, vault, "key", false, linkContext([imageFile]));
 		// Upload failed, so ![[fail.png]] stays, then convertWikiLinks turns it to !fail.png
 		expect(result).toBe("!fail.png");
 	});
@@ -318,12 +868,603 @@ describe("image processing", () => {
 
 		const vault = makeVault([svgFile]);
 		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
-		mockUploadImage.mockResolvedValue({ url: "https://share.jotbird.com/images/svg.svg" });
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/svg.svg" });
 
 		const input = "![[icon.svg]]";
-		const result = await processMarkdown(input, vault, "key", false);
+		const result = await processMarkdown(input, vault, "key", false, linkContext([svgFile]));
 		expect(result).toBe("![](https://share.jotbird.com/images/svg.svg)");
-		expect(mockUploadImage).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "icon.svg", "image/svg+xml");
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "icon.svg", "image/svg+xml");
+	});
+});
+
+describe("image link resolution", () => {
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/up.png" });
+	});
+
+	function vaultOf(files: TFile[]): Vault {
+		const vault = makeVault(files);
+		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		return vault;
+	}
+
+	it("uploads the file the link resolver picks among same-named attachments", async () => {
+		const other = makeFile("archive/diagram.png", "diagram", "png");
+		const mine = makeFile("projects/diagram.png", "diagram", "png");
+		const vault = vaultOf([other, mine]);
+		const ctx = linkContext([other, mine], "projects/plan.md");
+		ctx.metadataCache.getFirstLinkpathDest = vi.fn().mockReturnValue(mine);
+
+		await processMarkdown("![[diagram.png]]", vault, "key", false, ctx);
+		expect(ctx.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("diagram.png", "projects/plan.md");
+		expect(vault.readBinary).toHaveBeenCalledWith(mine);
+		expect(vault.readBinary).not.toHaveBeenCalledWith(other);
+	});
+
+	it("resolves relative paths against the note's folder", async () => {
+		const image = makeFile("docs/assets/x.png", "x", "png");
+		const decoy = makeFile("assets/x.png", "x", "png");
+		const vault = vaultOf([decoy, image]);
+
+		const result = await processMarkdown(
+			"![Chart](../assets/x.png)",
+			vault,
+			"key",
+			false,
+			linkContext([decoy, image], "docs/guides/setup.md")
+		);
+		expect(result).toBe("![Chart](https://share.jotbird.com/images/up.png)");
+		expect(vault.readBinary).toHaveBeenCalledWith(image);
+	});
+
+	it("resolves images in an embedded note against that note's path", async () => {
+		const embedded = makeFile("team/Runbook.md");
+		const image = makeFile("team/shot.png", "shot", "png");
+		const vault = vaultOf([embedded, image]);
+		vault.read = vi.fn().mockResolvedValue("![](./shot.png)");
+		const ctx = linkContext([embedded, image], "main.md");
+
+		const result = await processMarkdown("![[team/Runbook.md]]", vault, "key", false, ctx);
+		expect(result).toBe("![](https://share.jotbird.com/images/up.png)");
+		expect(ctx.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("./shot.png", "team/Runbook.md");
+	});
+
+	it("leaves images as written without a publish context", async () => {
+		const image = makeFile("photo.png", "photo", "png");
+		const result = await processMarkdown("![](photo.png)", vaultOf([image]), "key", false);
+		expect(result).toBe("![](photo.png)");
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+	});
+});
+
+// ---- Image optimization ----
+
+describe("image optimization", () => {
+	const photo = makeFile("photo.png", "photo", "png");
+	const options = { maxDimension: 2048, format: "webp" as const, quality: 80 };
+
+	function vault(): Vault {
+		const v = makeVault([photo]);
+		v.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(1000));
+		return v;
+	}
+
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/photo.webp" });
+		mockOptimizeImage.mockClear();
+	});
+
+	it("uploads the optimized image and totals the savings", async () => {
+		mockOptimizeImage.mockResolvedValueOnce({
+			data: new ArrayBuffer(200),
+			mimeType: "image/webp",
+			filename: "photo.webp",
+		});
+		const ctx = { ...linkContext([photo]), imageOptimization: options, imageSavings: { before: 0, after: 0 } };
+
+		await processMarkdown("![[photo.png]]", vault(), "key", false, ctx);
+
+		expect(mockOptimizeImage).toHaveBeenCalledWith(
+			{ data: expect.any(ArrayBuffer), mimeType: "image/png", filename: "photo.png" },
+			options
+		);
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "photo.webp", "image/webp");
+		expect(ctx.imageSavings).toEqual({ before: 1000, after: 200 });
+	});
+
+	it("counts nothing for an image left as it was", async () => {
+		const ctx = { ...linkContext([photo]), imageOptimization: options, imageSavings: { before: 0, after: 0 } };
+		await processMarkdown("![[photo.png]]", vault(), "key", false, ctx);
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "photo.png", "image/png");
+		expect(ctx.imageSavings).toEqual({ before: 0, after: 0 });
+	});
+
+	it("doesn't optimize when it isn't enabled", async () => {
+		await processMarkdown("![[photo.png]]", vault(), "key", false, linkContext([photo]));
+		expect(mockOptimizeImage).not.toHaveBeenCalled();
+	});
+
+	it("strips metadata before optimizing, and uploads the stripped image", async () => {
+		mockStripImageMetadata.mockClear();
+		const stripped = { data: new ArrayBuffer(900), mimeType: "image/png", filename: "photo.png" };
+		mockStripImageMetadata.mockResolvedValueOnce(stripped);
+		const ctx = { ...linkContext([photo]), stripImageMetadata: true, imageOptimization: options };
+
+		await processMarkdown("![[photo.png]]", vault(), "key", false, ctx);
+
+		expect(mockOptimizeImage).toHaveBeenCalledWith(stripped, options);
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", stripped.data, "photo.png", "image/png");
+	});
+
+	it("leaves metadata alone when stripping is off", async () => {
+		mockStripImageMetadata.mockClear();
+		await processMarkdown("![[photo.png]]", vault(), "key", false, linkContext([photo]));
+		expect(mockStripImageMetadata).not.toHaveBeenCalled();
+	});
+});
+
+// ---- Image conversion ----
+
+describe("image conversion", () => {
+	const photo = makeFile("phone/IMG_0042.heic", "IMG_0042", "heic");
+
+	function vault(): Vault {
+		const v = makeVault([photo]);
+		v.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(16));
+		return v;
+	}
+
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/IMG_0042.jpg" });
+		mockConvertImage.mockReset();
+	});
+
+	it("converts a HEIC photo and uploads the result as an image", async () => {
+		const converted = { data: new ArrayBuffer(8), mimeType: "image/jpeg", filename: "IMG_0042.jpg" };
+		mockConvertImage.mockResolvedValue(converted);
+
+		const result = await processMarkdown("![[IMG_0042.heic]]", vault(), "key", false, linkContext([photo]));
+
+		expect(mockConvertImage).toHaveBeenCalledWith({
+			data: expect.any(ArrayBuffer),
+			mimeType: "image/heic",
+			filename: "IMG_0042.heic",
+		});
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", converted.data, "IMG_0042.jpg", "image/jpeg");
+		expect(result).toBe("![](https://share.jotbird.com/images/IMG_0042.jpg)");
+	});
+
+	it("warns when the image can't be converted on this device", async () => {
+		mockConvertImage.mockResolvedValue(null);
+		const ctx = { ...linkContext([photo]), attachmentIssues: [] as AttachmentIssue[] };
+
+		await processMarkdown("![[IMG_0042.heic]]", vault(), "key", false, ctx);
+
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(ctx.attachmentIssues).toEqual([
+			{
+				reference: "![[IMG_0042.heic]]",
+				reason: "conversion_failed",
+				message:
+					"![[IMG_0042.heic]] — .heic images can't be converted on this device; export it as JPEG or PNG to publish it",
+			},
+		]);
+	});
+
+	it("recognizes AVIF, BMP and TIFF references", async () => {
+		const files = ["a.avif", "b.bmp", "c.tif", "d.tiff"].map((name) => {
+			const [basename, ext] = name.split(".");
+			return makeFile(name, basename, ext);
+		});
+		const v = makeVault(files);
+		v.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(16));
+		mockConvertImage.mockImplementation(async (image) => ({ ...image, mimeType: "image/png" }));
+
+		await processMarkdown("![[a.avif]] ![](b.bmp) ![[c.tif]] ![[d.tiff]]", v, "key", false, linkContext(files));
+
+		expect(mockConvertImage.mock.calls.map(([image]) => image.mimeType).sort()).toEqual([
+			"image/avif",
+			"image/bmp",
+			"image/tiff",
+			"image/tiff",
+		]);
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(4);
+	});
+});
+
+// ---- SVG sanitizing ----
+
+describe("SVG sanitizing", () => {
+	const icon = makeFile("icons/icon.svg", "icon", "svg");
+
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/icon.svg" });
+	});
+
+	function vaultWith(svg: string): Vault {
+		const v = makeVault([icon]);
+		v.readBinary = vi.fn().mockResolvedValue(new TextEncoder().encode(svg).buffer);
+		return v;
+	}
+
+	it("uploads the sanitized SVG and reports what was removed", async () => {
+		const ctx = { ...linkContext([icon]), sanitizedSvgs: [] as { path: string; removed: string[] }[] };
+		await processMarkdown(
+			"![[icon.svg]]",
+			vaultWith('<svg onload="x()"><script>alert(1)</script><rect/></svg>'),
+			"key",
+			false,
+			ctx
+		);
+
+		const sent = mockUploadAttachment.mock.calls[0][1];
+		expect(new TextDecoder().decode(sent)).toBe("<svg><rect/></svg>");
+		expect(ctx.sanitizedSvgs).toEqual([
+			{ path: "icons/icon.svg", removed: ["onload event handler", "<script> element"] },
+		]);
+	});
+
+	it("uploads a clean SVG byte for byte, reporting nothing", async () => {
+		const ctx = { ...linkContext([icon]), sanitizedSvgs: [] as { path: string; removed: string[] }[] };
+		const vault = vaultWith("<svg><rect/></svg>");
+		await processMarkdown("![[icon.svg]]", vault, "key", false, ctx);
+		expect(mockUploadAttachment.mock.calls[0][1]).toBe(await vi.mocked(vault.readBinary).mock.results[0].value);
+		expect(ctx.sanitizedSvgs).toEqual([]);
+	});
+});
+
+// ---- Attachments ----
+
+describe("attachment uploads", () => {
+	const spec = makeFile("docs/spec.pdf", "spec", "pdf");
+	const demo = makeFile("media/demo.mp4", "demo", "mp4");
+	const call = makeFile("media/call.m4a", "call", "m4a");
+	const report = makeFile("report.xlsx", "report", "xlsx");
+	const files = [spec, demo, call, report];
+
+	const ctxAllowing = (types: string[], maxAttachmentBytes?: number) => ({
+		...linkContext(files),
+		attachmentTypes: types,
+		maxAttachmentBytes,
+		attachmentIssues: [] as AttachmentIssue[],
+	});
+
+	function vault(): Vault {
+		const v = makeVault(files);
+		v.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		return v;
+	}
+
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+		mockUploadAttachment.mockImplementation(async (_key, _data, name) => ({
+			url: `https://share.jotbird.com/files/${name}`,
+		}));
+	});
+
+	it("uploads embedded and linked files and rewrites them to the right markup", async () => {
+		const input = "![[spec.pdf]]\n\n![[demo.mp4]]\n\n![[call.m4a]]\n\nSee [the report](report.xlsx) and [[spec.pdf|the spec]].";
+		const result = await processMarkdown(input, vault(), "key", false, ctxAllowing(["pdf", "mp4", "m4a", "xlsx"]));
+
+		expect(result).toBe(
+			"[spec.pdf](https://share.jotbird.com/files/spec.pdf)\n\n" +
+				'<video src="https://share.jotbird.com/files/demo.mp4" controls></video>\n\n' +
+				'<audio src="https://share.jotbird.com/files/call.m4a" controls></audio>\n\n' +
+				"See [the report](https://share.jotbird.com/files/report.xlsx) and [the spec](https://share.jotbird.com/files/spec.pdf)."
+		);
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(4);
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "spec.pdf", "application/pdf");
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "call.m4a", "audio/mp4");
+	});
+
+	it("rewrites an embed and a link to the same file each to its own markup", async () => {
+		const result = await processMarkdown("![[demo.mp4]]\n\nSee [[demo.mp4]].", vault(), "key", false, ctxAllowing(["mp4"]));
+		expect(result).toBe(
+			'<video src="https://share.jotbird.com/files/demo.mp4" controls></video>\n\n' +
+				"See [demo.mp4](https://share.jotbird.com/files/demo.mp4)."
+		);
+	});
+
+	it("keeps a PDF page reference out of the resolved path", async () => {
+		const ctx = ctxAllowing(["pdf"]);
+		const result = await processMarkdown("![[spec.pdf#page=3]]", vault(), "key", false, ctx);
+		expect(result).toBe("[spec.pdf](https://share.jotbird.com/files/spec.pdf)");
+		expect(ctx.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("spec.pdf", "note.md");
+	});
+
+	it("reports files whose type isn't allowed, without uploading them", async () => {
+		const ctx = ctxAllowing(["pdf"]);
+		const result = await processMarkdown("![[demo.mp4]]", vault(), "key", false, ctx);
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(result).toBe("!demo.mp4");
+		expect(ctx.attachmentIssues).toEqual([
+			{
+				reference: "![[demo.mp4]]",
+				reason: "unsupported_type",
+				message: "![[demo.mp4]] — .mp4 files aren't an allowed attachment type",
+			},
+		]);
+	});
+
+	it("reports files over the size limit, without uploading them", async () => {
+		demo.stat.size = 30 * 1024 * 1024;
+		const ctx = ctxAllowing(["mp4"], 25 * 1024 * 1024);
+		await processMarkdown("![[demo.mp4]]", vault(), "key", false, ctx);
+		demo.stat.size = 0;
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(ctx.attachmentIssues).toEqual([
+			{
+				reference: "![[demo.mp4]]",
+				reason: "too_large",
+				message: "![[demo.mp4]] — 30 MB is over the 25 MB attachment limit",
+			},
+		]);
+	});
+
+	it("uploads an allowed extension it has no MIME type for as octet-stream", async () => {
+		const model = makeFile("model.stl", "model", "stl");
+		const ctx = { ...linkContext([model]), attachmentTypes: ["stl"] };
+		const v = makeVault([model]);
+		v.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		const result = await processMarkdown("[model](model.stl)", v, "key", false, ctx);
+		expect(result).toBe("[model](https://share.jotbird.com/files/model.stl)");
+		expect(mockUploadAttachment).toHaveBeenCalledWith("key", expect.any(ArrayBuffer), "model.stl", "application/octet-stream");
+	});
+
+	it("never uploads a link to a note or a web page", async () => {
+		const input = "[Guide](Guide.md) [site](https://example.com/file.pdf)";
+		const ctx = ctxAllowing(["pdf", "md"]);
+		const result = await processMarkdown(input, vault(), "key", false, ctx);
+		// Guide.md isn't published, so its link is flattened like a wiki link
+		expect(result).toBe("Guide [site](https://example.com/file.pdf)");
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(ctx.attachmentIssues).toEqual([]);
+	});
+});
+
+describe("parseAttachmentTypes", () => {
+	it("normalizes case, dots and blanks", () => {
+		expect(parseAttachmentTypes(" .PDF, mp4,, M4a ")).toEqual(["pdf", "mp4", "m4a"]);
+		expect(parseAttachmentTypes("")).toEqual([]);
+	});
+});
+
+// ---- Parallel image uploads ----
+
+describe("parallel image uploads", () => {
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+	});
+
+	const images = Array.from({ length: 10 }, (_, i) => makeFile(`img${i}.png`, `img${i}`, "png"));
+
+	function vaultOf(count: number): Vault {
+		const vault = makeVault(images.slice(0, count));
+		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		return vault;
+	}
+
+	it("uploads an image referenced several times only once", async () => {
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/one.png" });
+		const input = "![[img0.png]]\n![[img0.png|again]]\n![diagram](img0.png)";
+		const result = await processMarkdown(input, vaultOf(1), "key", false, linkContext(images));
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(1);
+		expect(result).toBe(
+			"![](https://share.jotbird.com/images/one.png)\n![](https://share.jotbird.com/images/one.png)\n![diagram](https://share.jotbird.com/images/one.png)"
+		);
+	});
+
+	it("keeps at most four uploads in flight", async () => {
+		let inFlight = 0;
+		let peak = 0;
+		mockUploadAttachment.mockImplementation(async (_key, _data, name) => {
+			peak = Math.max(peak, ++inFlight);
+			await new Promise((r) => setTimeout(r, 1));
+			inFlight--;
+			return { url: `https://share.jotbird.com/images/${name}` };
+		});
+		const input = Array.from({ length: 10 }, (_, i) => `![[img${i}.png]]`).join("\n");
+
+		const result = await processMarkdown(input, vaultOf(10), "key", false, linkContext(images));
+
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(10);
+		expect(peak).toBe(4);
+		expect(result.split("\n")[9]).toBe("![](https://share.jotbird.com/images/img9.png)");
+	});
+
+	it("reports progress from zero to the number of distinct images", async () => {
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/x.png" });
+		const onUploadProgress = vi.fn();
+		const ctx: PublishContext = { ...linkContext(images), onUploadProgress };
+
+		await processMarkdown("![[img0.png]] ![[img1.png]] ![[img0.png]]", vaultOf(2), "key", false, ctx);
+
+		expect(onUploadProgress.mock.calls).toEqual([
+			[0, 2],
+			[1, 2],
+			[2, 2],
+		]);
+	});
+
+	it("uploads once, with one progress total, across the notes it embeds", async () => {
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/x.png" });
+		const notes: Record<string, string> = { "a.md": "A ![[img0.png]]", "b.md": "B ![[img0.png]] ![[img1.png]]" };
+		const files = [...images.slice(0, 2), makeFile("a.md"), makeFile("b.md")];
+		const vault = vaultOf(2);
+		vault.read = vi.fn(async (file: TFile) => notes[file.path]);
+		const onUploadProgress = vi.fn();
+		// No imageCache: nothing but the batching keeps img0 from uploading twice
+		const ctx: PublishContext = { ...linkContext(files), onUploadProgress };
+
+		const result = await processMarkdown("![[a.md]]\n\n![[b.md]]", vault, "key", false, ctx);
+
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(2);
+		expect(onUploadProgress.mock.calls).toEqual([
+			[0, 2],
+			[1, 2],
+			[2, 2],
+		]);
+		expect(result).toBe(
+			"A ![](https://share.jotbird.com/images/x.png)\n\nB ![](https://share.jotbird.com/images/x.png) ![](https://share.jotbird.com/images/x.png)"
+		);
+	});
+
+	it("does not report progress for a note without images", async () => {
+		const onUploadProgress = vi.fn();
+		const ctx: PublishContext = { ...linkContext(images), onUploadProgress };
+		await processMarkdown("No images here", vaultOf(0), "key", false, ctx);
+		expect(onUploadProgress).not.toHaveBeenCalled();
+	});
+});
+
+// ---- Image issue reporting ----
+
+describe("image issue reporting", () => {
+	const ctxCollecting = (files: TFile[] = []): PublishContext & { attachmentIssues: AttachmentIssue[] } => ({
+		...linkContext(files),
+		attachmentIssues: [],
+	});
+
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+	});
+
+	it("reports an image that isn't in the vault, once per reference", async () => {
+		const ctx = ctxCollecting();
+		await processMarkdown("![[missing.png]] ![[missing.png]] ![alt](gone.jpg)", makeVault(), "key", false, ctx);
+		expect(ctx.attachmentIssues).toEqual([
+			{ reference: "![[missing.png]]", reason: "not_found", message: "![[missing.png]] — not found in the vault" },
+			{ reference: "![alt](gone.jpg)", reason: "not_found", message: "![alt](gone.jpg) — not found in the vault" },
+		]);
+	});
+
+	it("reports a failed upload with the error", async () => {
+		const big = makeFile("big.png", "big", "png");
+		const vault = makeVault([big]);
+		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		mockUploadAttachment.mockRejectedValue(new Error("Upload: File exceeds 10MB limit"));
+		const ctx = ctxCollecting([big]);
+
+		const result = await processMarkdown("![[big.png]]", vault, "key", false, ctx);
+
+		expect(result).toBe("!big.png");
+		expect(ctx.attachmentIssues).toEqual([
+			{
+				reference: "![[big.png]]",
+				reason: "upload_failed",
+				message: "![[big.png]] — upload failed: Upload: File exceeds 10MB limit",
+			},
+		]);
+	});
+
+	it("reports nothing when every image uploads", async () => {
+		const ok = makeFile("ok.png", "ok", "png");
+		const vault = makeVault([ok]);
+		vault.readBinary = vi.fn().mockResolvedValue(new ArrayBuffer(8));
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/ok.png" });
+		const ctx = ctxCollecting([ok]);
+		await processMarkdown("![[ok.png]]", vault, "key", false, ctx);
+		expect(ctx.attachmentIssues).toEqual([]);
+	});
+});
+
+// ---- Image upload cache ----
+
+describe("image upload cache", () => {
+	const photo = makeFile("photo.png", "photo", "png");
+	const ctxWith = (imageCache: Record<string, string>): PublishContext => ({
+		...linkContext([photo]),
+		imageCache,
+	});
+
+	function vaultWith(bytes: number[]): Vault {
+		const vault = makeVault([photo]);
+		vault.readBinary = vi.fn().mockResolvedValue(new Uint8Array(bytes).buffer);
+		return vault;
+	}
+
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+		mockImageUrlExists.mockReset();
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/fresh.png" });
+		mockImageUrlExists.mockResolvedValue(true);
+	});
+
+	it("records each upload under the image's content hash", async () => {
+		const cache: Record<string, string> = {};
+		await processMarkdown("![[photo.png]]", vaultWith([1, 2, 3]), "key", false, ctxWith(cache));
+		expect(Object.values(cache)).toEqual(["https://share.jotbird.com/images/fresh.png"]);
+		expect(Object.keys(cache)[0]).toMatch(/^[0-9a-f]{64}$/);
+	});
+
+	it("reuses the cached URL for unchanged bytes instead of uploading again", async () => {
+		const cache: Record<string, string> = {};
+		await processMarkdown("![[photo.png]]", vaultWith([1, 2, 3]), "key", false, ctxWith(cache));
+		mockUploadAttachment.mockClear();
+
+		const result = await processMarkdown("![[photo.png]]", vaultWith([1, 2, 3]), "key", false, ctxWith(cache));
+
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(mockImageUrlExists).toHaveBeenCalledWith("https://share.jotbird.com/images/fresh.png");
+		expect(result).toBe("![](https://share.jotbird.com/images/fresh.png)");
+	});
+
+	it("uploads changed bytes even under the same filename", async () => {
+		const cache: Record<string, string> = {};
+		await processMarkdown("![[photo.png]]", vaultWith([1, 2, 3]), "key", false, ctxWith(cache));
+		await processMarkdown("![[photo.png]]", vaultWith([4, 5, 6]), "key", false, ctxWith(cache));
+		expect(mockUploadAttachment).toHaveBeenCalledTimes(2);
+		expect(Object.keys(cache)).toHaveLength(2);
+	});
+
+	it("re-uploads and replaces a cached URL that no longer serves", async () => {
+		const cache: Record<string, string> = {};
+		await processMarkdown("![[photo.png]]", vaultWith([1, 2, 3]), "key", false, ctxWith(cache));
+		const [hash] = Object.keys(cache);
+		mockImageUrlExists.mockResolvedValue(false);
+		mockUploadAttachment.mockResolvedValue({ url: "https://share.jotbird.com/images/replacement.png" });
+
+		const result = await processMarkdown("![[photo.png]]", vaultWith([1, 2, 3]), "key", false, ctxWith(cache));
+
+		expect(result).toBe("![](https://share.jotbird.com/images/replacement.png)");
+		expect(cache[hash]).toBe("https://share.jotbird.com/images/replacement.png");
+	});
+});
+
+describe("fingerprinting", () => {
+	beforeEach(() => {
+		mockUploadAttachment.mockReset();
+	});
+
+	it("works out the page in a dry run without reading or uploading attachments", async () => {
+		const photo = makeFile("photo.png", "photo", "png");
+		photo.stat = { ctime: 0, mtime: 1700, size: 42 };
+		const vault = makeVault([photo]);
+		const cache: Record<string, string> = {};
+
+		const result = await processMarkdown("![[photo.png]]", vault, "key", false, {
+			...linkContext([photo]),
+			imageCache: cache,
+			dryRun: true,
+		});
+
+		expect(result).toBe("![](jotbird-attachment:photo.png?size=42&mtime=1700)");
+		expect(vault.readBinary).not.toHaveBeenCalled();
+		expect(mockUploadAttachment).not.toHaveBeenCalled();
+		expect(cache).toEqual({});
+	});
+
+	it("fingerprints the body, title and page settings together", async () => {
+		const base = await contentFingerprint("Body", "Title", false, { theme: "essay" });
+		expect(base).toMatch(/^[0-9a-f]{64}$/);
+		expect(await contentFingerprint("Body", "Title", false, { theme: "essay" })).toBe(base);
+		expect(await contentFingerprint("Body.", "Title", false, { theme: "essay" })).not.toBe(base);
+		expect(await contentFingerprint("Body", "Title", true, { theme: "essay" })).not.toBe(base);
+		expect(await contentFingerprint("Body", "Title", false, undefined)).not.toBe(base);
 	});
 });
 
@@ -454,6 +1595,33 @@ describe("applyTitleMode", () => {
 			expect(r.title).toBe("FM Title");
 			expect(r.markdown).toBe("# FM Title\n\nBody");
 		});
+
+		it("takes the H1 from the processed body, not the raw note", async () => {
+			const file = makeFile("notes/Plan.md", "Plan");
+			const content = "# Internal plan #private\n\nDraft numbers\n\n# Roadmap\n\nShipping soon";
+			const processed = await processMarkdown(content, makeVault(), "key", false);
+			const r = applyTitleMode("auto", processed, content, file);
+			expect(r.title).toBe("Roadmap");
+			expect(r.markdown).toBe("# Roadmap\n\nShipping soon");
+		});
+	});
+
+	describe("replacement rules", () => {
+		const rules = [{ find: "ACME", replace: "the client", regex: false, enabled: true, folder: "" }];
+
+		it("runs them over a frontmatter title, injected heading included", () => {
+			const file = makeFile("notes/x.md", "x");
+			const r = applyTitleMode("auto", "Body", "---\ntitle: ACME postmortem\n---\nBody", file, rules);
+			expect(r.title).toBe("the client postmortem");
+			expect(r.markdown).toBe("# the client postmortem\n\nBody");
+		});
+
+		it("runs them over a filename title", () => {
+			const file = makeFile("notes/ACME notes.md", "ACME notes");
+			expect(applyTitleMode("auto", "Body", "Body", file, rules).title).toBe("the client notes");
+			expect(applyTitleMode("filename", "Body", "Body", file, rules).title).toBe("the client notes");
+			expect(applyTitleMode("h1", "Body", "Body", file, rules).title).toBe("the client notes");
+		});
 	});
 
 	describe("filename", () => {
@@ -1,5 +1,124 @@
-import { TFile, Vault } from "obsidian";
-import { uploadImage } from "./api";
+import { MetadataCache, TFile, Vault } from "obsidian";
+import { imageUrlExists, uploadAttachment } from "./api";
+import { convertImage, optimizeImage, stripImageMetadata, type ImageOptimization } from "./images";
+import { applyReplacementRules } from "./rules";
+import { mapText, mergeText, parseMarkdown, renderMarkdown, type MarkdownNode } from "./parser";
+import { sanitizeSvg } from "./svg";
+import type { AttachmentIssue, PagePublishSettings, PublishedNote, ReplacementRule, UnpublishedLinkMode } from "./types";
+import { UNPUBLISHED_LINK_OPTIONS } from "./types";
+
+/** Frontmatter property overriding the unpublished-links setting for one note. */
+export const FM_UNPUBLISHED_LINKS = "jotbird_unpublished_links";
+
+/** Stands in for a link to an unpublished note in "redact" mode. */
+const REDACTED_LINK_TEXT = "(private note)";
+
+/**
+ * What the pipeline needs to know about the vault beyond the note's own text:
+ * where the note lives (links resolve relative to it) and which notes already
+ * have a published page.
+ */
+export interface PublishContext {
+	/** Vault path of the note being published. */
+	sourcePath: string;
+	metadataCache: MetadataCache;
+	/** The plugin's path -> published page map. */
+	publishedNotes: Record<string, PublishedNote>;
+	/** What to do with a link to a note that isn't published. Defaults to "text". */
+	unpublishedLinks?: UnpublishedLinkMode;
+	/**
+	 * Content hash -> uploaded URL (PluginData.imageCache). Read and updated in
+	 * place; the caller persists it. Without one, every file is uploaded.
+	 */
+	imageCache?: Record<string, string>;
+	/**
+	 * Lowercase extensions of the non-image files to upload (see
+	 * parseAttachmentTypes). Images are always uploaded; without this, nothing
+	 * else is.
+	 */
+	attachmentTypes?: string[];
+	/** Size limit for non-image attachments, in bytes. No limit when unset. */
+	maxAttachmentBytes?: number;
+	/**
+	 * Remove EXIF/XMP and similar metadata from JPEG, PNG and WebP images before
+	 * upload (see stripImageMetadata).
+	 */
+	stripImageMetadata?: boolean;
+	/**
+	 * Collects, per SVG that had unsafe content removed before upload, its vault
+	 * path and what was removed (see sanitizeSvg). Appended to; the caller
+	 * reports. SVGs are always sanitized, whether or not this is set.
+	 */
+	sanitizedSvgs?: { path: string; removed: string[] }[];
+	/** Downsize and re-encode images before upload. Images go up as-is when unset. */
+	imageOptimization?: ImageOptimization;
+	/**
+	 * Running byte totals of the optimized images, before and after, for the
+	 * publish notice. Updated in place; images uploaded as-is aren't counted.
+	 */
+	imageSavings?: { before: number; after: number };
+	/**
+	 * Called as uploads progress: once with `done` 0 before the first starts,
+	 * then after each finishes. Not called for a note without attachments.
+	 */
+	onUploadProgress?: (done: number, total: number) => void;
+	/**
+	 * Collects every image or attachment reference that couldn't be resolved or
+	 * uploaded (those are left in the text as written). Appended to; the caller
+	 * reports.
+	 */
+	attachmentIssues?: AttachmentIssue[];
+	/**
+	 * Whether a vault path is excluded from publishing. An excluded image,
+	 * attachment or embedded note is dropped from the page, never uploaded or
+	 * inlined, and reported as an "excluded" attachment issue.
+	 */
+	isExcluded?: (path: string) => boolean;
+	/**
+	 * The user's find/replace rules, run over the finished note (embedded notes
+	 * included) once the built-in transforms are done. Scoped by `sourcePath`.
+	 */
+	replacementRules?: ReplacementRule[];
+	/**
+	 * Work out the page without uploading anything, for fingerprinting: each
+	 * attachment stands in as its vault path, size and modification time
+	 * instead of an uploaded URL, and nothing is read or added to imageCache.
+	 */
+	dryRun?: boolean;
+}
+
+/**
+ * Thrown by processMarkdown in "block" mode, before anything is uploaded, when
+ * the note links to notes that aren't published. `links` lists each offending
+ * link as written.
+ */
+export class UnpublishedLinksError extends Error {
+	links: string[];
+
+	constructor(links: string[]) {
+		super(
+			"Publish blocked — this note links to notes that aren't published:\n" +
+				links.map((l) => `• ${l}`).join("\n")
+		);
+		this.name = "UnpublishedLinksError";
+		this.links = links;
+	}
+}
+
+/**
+ * The unpublished-links mode for a note: its jotbird_unpublished_links property
+ * when that names a known mode, else the vault-wide setting.
+ */
+export function resolveUnpublishedLinkMode(
+	frontmatter: Record<string, unknown> | undefined,
+	vaultDefault: UnpublishedLinkMode
+): UnpublishedLinkMode {
+	const value = frontmatter?.[FM_UNPUBLISHED_LINKS];
+	if (typeof value === "string" && Object.keys(UNPUBLISHED_LINK_OPTIONS).includes(value)) {
+		return value as UnpublishedLinkMode;
+	}
+	return vaultDefault;
+}
 
 /**
  * Strip YAML frontmatter from the beginning of a markdown string.
@@ -12,202 +131,976 @@ function stripFrontmatter(md: string): string {
 	return md;
 }
 
+// Wiki link or embed: optional "!", target, optional "|alias". The leading "!"
+// is captured so embeds are never treated as links — an image pointing at a
+// page would render as a broken image.
+const WIKI_LINK_REGEX = /(!?)\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
 /**
- * Convert Obsidian wiki links to plain text.
+ * Convert Obsidian wiki links for publishing.
+ *
+ * A link whose target resolves to a published note becomes a real markdown
+ * link to that note's page (a `#Heading` subpath maps to the heading anchor).
+ * A link to any other note is handled per `ctx.unpublishedLinks`; by default
+ * (and without a ctx) it is flattened to plain text:
  * [[Page Name]] -> Page Name
  * [[Page Name|display text]] -> display text
  */
-function convertWikiLinks(md: string): string {
-	// Handle aliased links first: [[target|display]]
-	md = md.replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, "$2");
-	// Handle plain links: [[target]]
-	md = md.replace(/\[\[([^\]]+)\]\]/g, "$1");
-	return md;
+function convertWikiLinks(md: string, ctx?: PublishContext): string {
+	return md.replace(
+		WIKI_LINK_REGEX,
+		(_match: string, bang: string, target: string, alias: string | undefined) => {
+			const text = alias ?? target;
+			if (bang || !ctx) return bang + text;
+
+			const href = resolvePublishedLink(target, ctx);
+			if (href !== null) {
+				return `[${escapeLinkText(alias ?? linkDisplayText(target))}](${href})`;
+			}
+			// A block reference within this note, or a link to an attachment that
+			// isn't uploaded, has no note to leak.
+			if (!linksToNote(target, ctx)) return text;
+			return unpublishedLinkText(text, ctx);
+		}
+	);
+}
+
+// A markdown link to a note: [text](Note.md), [text](Folder/My%20Note.md#Heading).
+// The leading "!" is captured so embeds are left alone, as with wiki links.
+const MARKDOWN_NOTE_LINK_REGEX = /(!?)\[([^\]]*)\]\((?!https?:\/\/)([^)\s]+?\.md(?:#[^)\s]*)?)\)/gi;
+
+/**
+ * Convert markdown links to notes the way convertWikiLinks converts wiki
+ * links: a link to a published note points at its page, and a link to any
+ * other note is handled per `ctx.unpublishedLinks`. Without a ctx they're
+ * left as written.
+ */
+function convertNoteLinks(md: string, ctx?: PublishContext): string {
+	if (!ctx) return md;
+	return md.replace(MARKDOWN_NOTE_LINK_REGEX, (match: string, bang: string, text: string, dest: string) => {
+		if (bang) return match;
+		const href = resolvePublishedLink(noteLinkTarget(dest), ctx);
+		return href !== null ? `[${text}](${href})` : unpublishedLinkText(text, ctx);
+	});
+}
+
+/** A markdown link's destination as a link target: "My%20Note.md" names "My Note.md". */
+function noteLinkTarget(dest: string): string {
+	try {
+		return decodeURIComponent(dest);
+	} catch {
+		// Malformed %-sequence — take it as written
+		return dest;
+	}
+}
+
+/** What a link to a note without a published page becomes, showing `text`. */
+function unpublishedLinkText(text: string, ctx: PublishContext): string {
+	switch (ctx.unpublishedLinks) {
+		case "redact":
+			return REDACTED_LINK_TEXT;
+		case "remove":
+			return "";
+		default:
+			return text;
+	}
+}
+
+/**
+ * Every link in the note's text or HTML to a note without a published page, as
+ * written. Embeds, links within the note itself and links to attachments are
+ * not links to another note.
+ */
+function findUnpublishedLinks(nodes: MarkdownNode[], ctx: PublishContext): string[] {
+	const found: string[] = [];
+	const text = nodes.filter((n) => n.type === "text" || holdsMarkdown(n)).map((n) => n.value);
+	for (const match of text.flatMap((t) => [...t.matchAll(WIKI_LINK_REGEX)])) {
+		const [raw, bang, target] = match;
+		if (bang || !linksToNote(target, ctx)) continue;
+		if (resolvePublishedLink(target, ctx) !== null) continue;
+		if (!found.includes(raw)) found.push(raw);
+	}
+	for (const match of text.flatMap((t) => [...t.matchAll(MARKDOWN_NOTE_LINK_REGEX)])) {
+		const [raw, bang, , dest] = match;
+		if (bang || resolvePublishedLink(noteLinkTarget(dest), ctx) !== null) continue;
+		if (!found.includes(raw)) found.push(raw);
+	}
+	return found;
+}
+
+/**
+ * Whether a wiki-link target is another note: it names a file, and that file
+ * is markdown. A link that doesn't resolve is taken to be a note not written
+ * yet.
+ */
+function linksToNote(target: string, ctx: PublishContext): boolean {
+	const { linkpath } = splitLinktext(target);
+	if (!linkpath) return false;
+	const dest = ctx.metadataCache.getFirstLinkpathDest(linkpath, ctx.sourcePath);
+	return !dest || dest.extension === "md";
+}
+
+/**
+ * The published URL a wiki-link target points at, or null when the target
+ * isn't a published note. `[[#Heading]]` stays on the current page.
+ */
+function resolvePublishedLink(target: string, ctx: PublishContext): string | null {
+	const { linkpath, subpath } = splitLinktext(target);
+	const anchor = subpath && !subpath.startsWith("^") ? `#${headingAnchor(subpath)}` : "";
+
+	if (!linkpath) {
+		return anchor || null;
+	}
+
+	const dest = ctx.metadataCache.getFirstLinkpathDest(linkpath, ctx.sourcePath);
+	if (!dest) return null;
+	const published = ctx.publishedNotes[dest.path];
+	if (!published) return null;
+	return published.url + anchor;
+}
+
+/**
+ * Split "Note#Heading" into its path and subpath. Nested heading links
+ * (Note#Parent#Child) address the last heading; a block reference keeps its
+ * leading "^" so callers can tell it apart, and is accepted without the "#"
+ * (Note^blockid) since "^" can't appear in a note name.
+ */
+function splitLinktext(target: string): { linkpath: string; subpath: string } {
+	const at = target.search(/[#^]/);
+	if (at === -1) return { linkpath: target.trim(), subpath: "" };
+	const rest = target[at] === "#" ? target.slice(at + 1) : target.slice(at);
+	const parts = rest.split("#");
+	return {
+		linkpath: target.slice(0, at).trim(),
+		subpath: parts[parts.length - 1].trim(),
+	};
+}
+
+/** How Obsidian renders an unaliased link: "Note > Heading", or "Heading" on its own. */
+function linkDisplayText(target: string): string {
+	const { linkpath, subpath } = splitLinktext(target);
+	if (!subpath) return linkpath;
+	return linkpath ? `${linkpath} > ${subpath}` : subpath;
 }
 
 /**
- * Strip Obsidian comments: %%comment%%
- * Handles both inline and multi-line comments.
+ * GitHub-style heading anchor: lowercased, punctuation dropped, spaces to
+ * hyphens — the id markdown renderers give a heading.
  */
-function stripComments(md: string): string {
-	return md.replace(/%%[\s\S]*?%%/g, "");
+function headingAnchor(heading: string): string {
+	return heading
+		.trim()
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}\s_-]/gu, "")
+		.replace(/\s/g, "-");
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([[\]])/g, "\\$1");
 }
 
+// A link destination or URL (kept as is, so "page#anchor" is never a tag), or
+// a #tag preceded by whitespace or the start of a line.
+const TAG_REGEX =
+	/(\]\([^)]*\)|<[a-z][a-z0-9+.-]*:[^>\s]*>|\b[a-z][a-z0-9+.-]*:\/\/[^\s<>()]+)|(^|\s)#(?!#|\s)([\w/-]+)/gim;
+
 /**
- * Strip hashtag-style tags (#tag).
+ * Strip hashtag-style tags (#tag) from a text node.
  * Avoids stripping markdown headings (# heading) by requiring tags
  * to not be at the start of a line or preceded only by whitespace with #.
+ * `before` is the character preceding the node, so a node that starts
+ * mid-line (after inline code, say) doesn't count as a line start.
  */
-function stripTags(md: string): string {
+function stripTags(text: string, before: string): string {
 	// Match #tag that isn't a heading (headings: line starts with # followed by space)
 	// Tags: # followed by word chars, not preceded by line-start-only hashes
-	return md.replace(/(^|\s)#(?!#|\s)([\w/-]+)/gm, (match: string, prefix: string, _tag: string, offset: number, str: string) => {
-		// Check if this is a heading: line starts with one or more # then space
-		const lineStart = str.lastIndexOf("\n", offset - 1) + 1;
-		const beforeOnLine = str.slice(lineStart, offset + prefix.length);
-		if (/^#{0,6}$/.test(beforeOnLine.trim()) && beforeOnLine.trim().length > 0) {
-			// This # is part of a heading like "## #tag" - still strip the tag
-			// But "# heading" shouldn't match since heading text doesn't start with #
-			return match;
-		}
-		// Strip the tag but preserve the leading whitespace/start-of-line
-		return prefix;
-	});
+	const str = before + text;
+	return str
+		.replace(TAG_REGEX, (match: string, url: string | undefined, prefix: string, _tag: string, offset: number) => {
+			if (url) return match;
+			// Check if this is a heading: line starts with one or more # then space
+			const lineStart = str.lastIndexOf("\n", offset - 1) + 1;
+			const beforeOnLine = str.slice(lineStart, offset + prefix.length);
+			if (/^#{0,6}$/.test(beforeOnLine.trim()) && beforeOnLine.trim().length > 0) {
+				// This # is part of a heading like "## #tag" - still strip the tag
+				// But "# heading" shouldn't match since heading text doesn't start with #
+				return match;
+			}
+			// Strip the tag but preserve the leading whitespace/start-of-line
+			return prefix;
+		})
+		.slice(before.length);
 }
 
+// <!-- jotbird:private --> and <!-- /jotbird:private -->
+const PRIVATE_MARKER = /^\s*<!--\s*(\/?)jotbird:private\s*-->\s*$/i;
+// > [!private], > [!private]- Title, ...
+const PRIVATE_CALLOUT = /^[ \t]*>[ \t]*\[!private\]/i;
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*)/;
+const PRIVATE_HEADING_TAG = /(?:^|\s)#private(?=\s|$)/i;
+
 /**
- * Identify regions in the markdown that are inside fenced code blocks or inline code,
- * so image regex matches inside them can be skipped.
+ * Drop everything the note marks private: `> [!private]` callouts, whatever
+ * sits between `<!-- jotbird:private -->` and `<!-- /jotbird:private -->`
+ * (to the end of the note if the closing marker is missing), and the section
+ * under any heading tagged #private, down to the next heading of the same or
+ * a higher level.
+ *
+ * Works line by line across all nodes: a private line's code, math and HTML
+ * go with it, and markers or headings inside code don't count.
  */
-function buildCodeRegions(md: string): Array<{ start: number; end: number }> {
-	const regions: Array<{ start: number; end: number }> = [];
-	// Fenced code blocks: ``` or ~~~
-	const fencedRe = /^(`{3,}|~{3,}).*\n[\s\S]*?\n\1\s*$/gm;
-	let m;
-	while ((m = fencedRe.exec(md)) !== null) {
-		regions.push({ start: m.index, end: m.index + m[0].length });
+function stripPrivateSections(nodes: MarkdownNode[]): MarkdownNode[] {
+	const out: MarkdownNode[] = [];
+	let inMarkers = false;
+	let inCallout = false;
+	// The level of the #private heading whose section we're in
+	let sectionLevel: number | null = null;
+	let lineStart = true;
+	let dropLine = false;
+
+	const startLine = (line: string) => {
+		if (inCallout && !/^[ \t]*>/.test(line)) inCallout = false;
+		if (PRIVATE_CALLOUT.test(line)) inCallout = true;
+		const heading = HEADING.exec(line);
+		if (heading) {
+			const level = heading[1].length;
+			if (sectionLevel !== null && level <= sectionLevel) sectionLevel = null;
+			if (sectionLevel === null && PRIVATE_HEADING_TAG.test(heading[2])) sectionLevel = level;
+		}
+		dropLine = inMarkers || inCallout || sectionLevel !== null;
+	};
+
+	for (const node of nodes) {
+		const marker = node.type === "html" ? PRIVATE_MARKER.exec(node.value) : null;
+		if (marker) {
+			inMarkers = marker[1] !== "/";
+			// A marker on its own line takes the line with it
+			dropLine = lineStart || inMarkers || inCallout || sectionLevel !== null;
+			lineStart = false;
+			continue;
+		}
+		if (node.type !== "text") {
+			if (lineStart) startLine(node.value);
+			if (!dropLine) out.push(node);
+			lineStart = false;
+			continue;
+		}
+		let kept = "";
+		for (const line of node.value.match(/[^\n]*\n|[^\n]+/g) ?? []) {
+			if (lineStart) startLine(line);
+			if (!dropLine) kept += line;
+			lineStart = line.endsWith("\n");
+		}
+		if (kept) out.push({ type: "text", value: kept });
 	}
-	// Inline code: `...`
-	const inlineRe = /`[^`\n]+`/g;
-	while ((m = inlineRe.exec(md)) !== null) {
-		regions.push({ start: m.index, end: m.index + m[0].length });
+	return mergeText(out);
+}
+
+/** How many uploads uploadAttachments runs at once. */
+const UPLOAD_CONCURRENCY = 4;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+};
+
+/**
+ * Image formats browsers don't all display. They're converted before upload
+ * (see convertImage) and otherwise handled like any other image.
+ */
+const CONVERTED_IMAGE_TYPES: Record<string, string> = {
+	heic: "image/heic",
+	heif: "image/heif",
+	avif: "image/avif",
+	bmp: "image/bmp",
+	tif: "image/tiff",
+	tiff: "image/tiff",
+};
+
+function isImageExtension(ext: string): boolean {
+	return ext in IMAGE_MIME_TYPES || ext in CONVERTED_IMAGE_TYPES;
+}
+
+/** Thrown for an image in a format that can't be converted on this device. */
+class ImageConversionError extends Error {
+	constructor(ext: string) {
+		super(`.${ext} images can't be converted on this device; export it as JPEG or PNG to publish it`);
+		this.name = "ImageConversionError";
 	}
-	return regions;
 }
 
-function isInsideCode(offset: number, regions: Array<{ start: number; end: number }>): boolean {
-	return regions.some((r) => offset >= r.start && offset < r.end);
+/**
+ * Non-image attachment types the pipeline knows how to label. Which types are
+ * actually uploaded is up to `ctx.attachmentTypes`; an allowed extension not
+ * listed here goes up as application/octet-stream.
+ */
+const FILE_MIME_TYPES: Record<string, string> = {
+	pdf: "application/pdf",
+	mp4: "video/mp4",
+	webm: "video/webm",
+	mov: "video/quicktime",
+	ogv: "video/ogg",
+	mp3: "audio/mpeg",
+	m4a: "audio/mp4",
+	wav: "audio/wav",
+	ogg: "audio/ogg",
+	flac: "audio/flac",
+	csv: "text/csv",
+	txt: "text/plain",
+	zip: "application/zip",
+	docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+const VIDEO_EXTENSIONS = ["mp4", "webm", "mov", "ogv"];
+const AUDIO_EXTENSIONS = ["mp3", "m4a", "wav", "ogg", "flac"];
+
+/**
+ * Parse the comma-separated attachment types setting into lowercase
+ * extensions, ignoring dots and blanks: " .PDF, mp4,," -> ["pdf", "mp4"].
+ */
+export function parseAttachmentTypes(value: string): string[] {
+	return value
+		.split(",")
+		.map((t) => t.trim().replace(/^\./, "").toLowerCase())
+		.filter((t) => t.length > 0);
+}
+
+/** A local file referenced by the note, and how the reference was written. */
+interface AttachmentReference {
+	/** The reference as written, e.g. "![[demo.mp4]]" or "[report](report.xlsx)". */
+	original: string;
+	embed: boolean;
+	/** Markdown-ready alt or link text, or null to fall back to the file name. */
+	label: string | null;
+	file: TFile;
 }
 
 /**
- * Find all local image references in markdown and upload them.
- * Handles both wiki-style ![[image.png]] and standard ![alt](path) syntax.
- * Returns the markdown with local paths replaced by uploaded URLs.
- * Skips image references inside fenced code blocks and inline code.
+ * Find all local image and attachment references in the note's text nodes
+ * and queue them for upload. Handles wiki-style ![[file.ext]] / [[file.ext]]
+ * and standard ![alt](path) / [text](path) syntax. Each queued reference is
+ * replaced, where it was written, by a placeholder that uploadAttachments
+ * later swaps for the uploaded markup; references to excluded files are
+ * removed, and ones that can't be uploaded are left as written and reported.
+ * Code and math are left alone, and so is raw HTML (see holdsMarkdown).
+ *
+ * Images are always uploaded. Other files only when their extension is in
+ * `ctx.attachmentTypes` and they're within `ctx.maxAttachmentBytes`.
+ *
+ * Targets resolve through Obsidian's link resolver relative to `ctx.sourcePath`,
+ * so the uploaded file is the one the editor shows. Without a ctx there is no
+ * resolver and references are left as written.
  */
-async function processImages(
+function collectAttachments(
+	nodes: MarkdownNode[],
+	uploads: AttachmentReference[],
+	ctx?: PublishContext
+): MarkdownNode[] {
+	if (!ctx) return nodes;
+	const allowed = ctx.attachmentTypes ?? [];
+	// Notes are never attachments: links to them are convertWikiLinks' job
+	const isCandidate = (ext: string) => {
+		const e = ext.toLowerCase();
+		return e !== "md" && (isImageExtension(e) || e in FILE_MIME_TYPES || allowed.includes(e));
+	};
+	const addIssue = (reference: string, reason: AttachmentIssue["reason"], message: string) => {
+		if (!ctx.attachmentIssues?.some((i) => i.reference === reference)) {
+			ctx.attachmentIssues?.push({ reference, reason, message });
+		}
+	};
+	/** What a reference is replaced by: a placeholder, "" when excluded, or null to keep it. */
+	const replacementFor = (original: string, embed: boolean, label: string | null, target: string) => {
+		const file = resolveAttachmentFile(target, ctx);
+		if (!file) {
+			addIssue(original, "not_found", `${original} — not found in the vault`);
+			return null;
+		}
+		if (ctx.isExcluded?.(file.path)) {
+			addIssue(original, "excluded", `${original} — excluded from publishing`);
+			return "";
+		}
+		const ext = file.extension.toLowerCase();
+		if (!isImageExtension(ext)) {
+			if (!allowed.includes(ext)) {
+				addIssue(original, "unsupported_type", `${original} — .${ext} files aren't an allowed attachment type`);
+				return null;
+			}
+			if (ctx.maxAttachmentBytes !== undefined && file.stat.size > ctx.maxAttachmentBytes) {
+				addIssue(
+					original,
+					"too_large",
+					`${original} — ${formatMegabytes(file.stat.size)} is over the ${formatMegabytes(ctx.maxAttachmentBytes)} attachment limit`
+				);
+				return null;
+			}
+		}
+		uploads.push({ original, embed, label, file });
+		return `${UPLOAD_PLACEHOLDER_OPEN}${uploads.length - 1}${UPLOAD_PLACEHOLDER_CLOSE}`;
+	};
+
+	return mapTextAndHtml(nodes, (text) => {
+		const found: { start: number; end: number; replacement: string | null }[] = [];
+
+		// Wiki-style references: ![[file.ext]], [[file.ext#page=2|label]]
+		const wikiRegex = /(!?)\[\[([^\]|#^]+\.([a-zA-Z0-9]+))(?:[#^][^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+		for (const match of text.matchAll(wikiRegex)) {
+			if (!isCandidate(match[3])) continue;
+			const embed = match[1] === "!";
+			const ext = match[3].toLowerCase();
+			// An image embed's alias is its display size or alt text, neither of which
+			// carries over; any other reference's alias is its link text.
+			const label = embed && isImageExtension(ext) ? "" : match[4] ? escapeLinkText(match[4]) : null;
+			found.push({
+				start: match.index,
+				end: match.index + match[0].length,
+				replacement: replacementFor(match[0], embed, label, match[2]),
+			});
+		}
+
+		// Standard markdown references: ![alt](path), [text](path)
+		// Only process local paths (not http/https URLs)
+		const mdRegex = /(!?)\[([^\]]*)\]\((?!https?:\/\/)([^)]+)\)/g;
+		for (const match of text.matchAll(mdRegex)) {
+			const path = match[3].replace(/#.*$/, "");
+			const ext = /\.([a-zA-Z0-9]+)$/.exec(path)?.[1];
+			if (!ext || !isCandidate(ext)) continue;
+			const start = match.index;
+			const end = start + match[0].length;
+			if (found.some((f) => start < f.end && end > f.start)) continue;
+			found.push({ start, end, replacement: replacementFor(match[0], match[1] === "!", match[2], path) });
+		}
+
+		// Rewrite each reference where it was written, so one reference is never
+		// mistaken for part of another ([[demo.mp4]] inside ![[demo.mp4]])
+		let out = "";
+		let last = 0;
+		for (const { start, end, replacement } of found.sort((a, b) => a.start - b.start)) {
+			if (replacement === null) continue;
+			out += text.slice(last, start) + replacement;
+			last = end;
+		}
+		return out + text.slice(last);
+	});
+}
+
+// Private-use characters delimit the placeholders collectAttachments leaves,
+// so no transform or note text can produce or alter one.
+const UPLOAD_PLACEHOLDER_OPEN = "\uE000";
+const UPLOAD_PLACEHOLDER_CLOSE = "\uE001";
+const UPLOAD_PLACEHOLDER_REGEX = /\uE000(\d+)\uE001/g;
+
+/**
+ * Upload everything collectAttachments queued for a note and the notes
+ * embedded in it, and swap each placeholder in `md` for the uploaded markup.
+ * Uploads are deduplicated by file, so a file referenced ten times — in any
+ * of the notes — uploads once; they run UPLOAD_CONCURRENCY at a time,
+ * reporting one total to `ctx.onUploadProgress`. A reference whose upload
+ * failed is put back as if it had never been queued, and reported.
+ */
+async function uploadAttachments(
 	md: string,
+	uploads: AttachmentReference[],
 	vault: Vault,
-	apiKey: string
+	apiKey: string,
+	ctx: PublishContext
 ): Promise<string> {
-	const imageExtensions = /\.(png|jpe?g|gif|webp|svg)$/i;
-	const codeRegions = buildCodeRegions(md);
-
-	// Collect all image references to process
-	const replacements: { original: string; url: string }[] = [];
-
-	// Match wiki-style images: ![[filename.ext]] or ![[filename.ext|alt]]
-	const wikiImageRegex = /!\[\[([^\]|]+(?:\.[a-zA-Z]+))(?:\|[^\]]*)?\]\]/g;
-	let match;
-	while ((match = wikiImageRegex.exec(md)) !== null) {
-		if (isInsideCode(match.index, codeRegions)) continue;
-		const imageName = match[0];
-		const fileName = match[1];
-		if (!imageExtensions.test(fileName)) continue;
-
-		const url = await resolveAndUploadImage(vault, fileName, apiKey);
-		if (url) {
-			replacements.push({ original: imageName, url });
+	const files = new Map<string, TFile>();
+	for (const { file } of uploads) files.set(file.path, file);
+
+	const total = files.size;
+	let done = 0;
+	if (total > 0) ctx.onUploadProgress?.(done, total);
+	const uploaded = new Map<string, string>();
+	const failed = new Map<string, unknown>();
+	await mapWithConcurrency([...files.values()], UPLOAD_CONCURRENCY, async (file) => {
+		try {
+			uploaded.set(
+				file.path,
+				ctx.dryRun
+					? `jotbird-attachment:${file.path}?size=${file.stat.size}&mtime=${file.stat.mtime}`
+					: await uploadAttachmentFile(vault, file, apiKey, ctx)
+			);
+		} catch (e) {
+			failed.set(file.path, e);
 		}
-	}
+		ctx.onUploadProgress?.(++done, total);
+	});
 
-	// Match standard markdown images: ![alt](path)
-	// Only process local paths (not http/https URLs)
-	const mdImageRegex = /!\[([^\]]*)\]\((?!https?:\/\/)([^)]+)\)/g;
-	while ((match = mdImageRegex.exec(md)) !== null) {
-		if (isInsideCode(match.index, codeRegions)) continue;
-		const imageName = match[0];
-		const alt = match[1];
-		const path = match[2];
-		if (!imageExtensions.test(path)) continue;
-
-		const url = await resolveAndUploadImage(vault, path, apiKey);
-		if (url) {
-			replacements.push({ original: imageName, url: `![${alt}](${url})` });
+	return md.replace(UPLOAD_PLACEHOLDER_REGEX, (_match: string, index: string) => {
+		const reference = uploads[Number(index)];
+		const { original, file } = reference;
+		const url = uploaded.get(file.path);
+		if (url) return attachmentMarkup(reference, url);
+		if (!ctx.attachmentIssues?.some((i) => i.reference === original)) {
+			const error = failed.get(file.path);
+			const message =
+				error instanceof ImageConversionError
+					? `${original} — ${error.message}`
+					: `${original} — upload failed: ${error instanceof Error ? error.message : "unknown error"}`;
+			ctx.attachmentIssues?.push({
+				reference: original,
+				reason: error instanceof ImageConversionError ? "conversion_failed" : "upload_failed",
+				message,
+			});
 		}
-	}
+		// As convertWikiLinks would have left it, had it never been queued
+		return convertWikiLinks(original, ctx);
+	});
+}
 
-	// Apply replacements (use split/join to replace all occurrences and avoid $-pattern issues)
-	for (const { original, url } of replacements) {
-		const replacement = original.startsWith("![[") ? `![](${url})` : url;
-		md = md.split(original).join(replacement);
-	}
+/** The markdown (or HTML, for media players) an uploaded reference becomes. */
+function attachmentMarkup({ embed, label, file }: AttachmentReference, url: string): string {
+	const ext = file.extension.toLowerCase();
+	if (embed && isImageExtension(ext)) return `![${label ?? ""}](${url})`;
+	const src = url.replace(/"/g, "&quot;");
+	if (embed && VIDEO_EXTENSIONS.includes(ext)) return `<video src="${src}" controls></video>`;
+	if (embed && AUDIO_EXTENSIONS.includes(ext)) return `<audio src="${src}" controls></audio>`;
+	return `[${label || escapeLinkText(file.name)}](${url})`;
+}
 
-	return md;
+/** "2.4 MB", to one decimal place. */
+export function formatMegabytes(bytes: number): string {
+	return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
 }
 
-async function resolveAndUploadImage(
-	vault: Vault,
-	fileName: string,
-	apiKey: string
-): Promise<string | null> {
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, resolving once
+ * all have settled. `fn` is expected to handle its own errors.
+ */
+async function mapWithConcurrency<T>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<void>
+): Promise<void> {
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			await fn(items[next++]);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Resolve an attachment link to the vault file Obsidian would show for it, honoring
+ * the vault's shortest-path, relative and absolute link formats.
+ */
+function resolveAttachmentFile(linkpath: string, ctx: PublishContext): TFile | null {
 	// Standard-markdown image links percent-encode special characters (a space becomes
-	// %20), but Obsidian's on-disk file paths use the literal characters. Match against
-	// both the raw and URL-decoded forms so e.g. "assets/Pasted%20image%20….png" resolves
-	// to the real "assets/Pasted image ….png" file (Obsidian's default pasted-image
-	// naming). Wiki-style links aren't encoded, so the decoded form equals the raw one and
-	// this is a no-op for them.
-	const candidates = [fileName];
+	// %20), but Obsidian's on-disk file paths use the literal characters. Try both the
+	// raw and URL-decoded forms so e.g. "assets/Pasted%20image%20….png" resolves to the
+	// real "assets/Pasted image ….png" file (Obsidian's default pasted-image naming).
+	// Wiki-style links aren't encoded, so the decoded form equals the raw one and this
+	// is a no-op for them.
+	const candidates = [linkpath];
 	try {
-		const decoded = decodeURIComponent(fileName);
-		if (decoded !== fileName) candidates.push(decoded);
+		const decoded = decodeURIComponent(linkpath);
+		if (decoded !== linkpath) candidates.push(decoded);
 	} catch {
 		// Malformed %-sequence — keep the raw form only.
 	}
 
-	// Try to resolve the file using Obsidian's link resolution
-	const resolved = vault.getFiles().find((f) =>
-		candidates.some((c) => f.path === c || f.name === c || f.path.endsWith("/" + c))
-	);
+	for (const candidate of candidates) {
+		const file = ctx.metadataCache.getFirstLinkpathDest(candidate, ctx.sourcePath);
+		if (file) return file;
+	}
+	return null;
+}
 
-	if (!resolved) return null;
+/**
+ * Upload one attachment (or reuse its cached upload) and return its URL.
+ * SVGs are sanitized and HEIC/AVIF/BMP/TIFF images converted; images then
+ * have their metadata stripped and are optimized, as `ctx` asks. Throws on
+ * failure — an ImageConversionError for an image that can't be converted.
+ */
+async function uploadAttachmentFile(
+	vault: Vault,
+	file: TFile,
+	apiKey: string,
+	ctx: PublishContext
+): Promise<string> {
+	const data = await vault.readBinary(file);
+	const ext = file.extension.toLowerCase();
+	if (!isImageExtension(ext)) {
+		// Other attachments go up as they are
+		return uploadCached(data, ctx.imageCache, async () => {
+			const mimeType = FILE_MIME_TYPES[ext] ?? "application/octet-stream";
+			return (await uploadAttachment(apiKey, data, file.name, mimeType)).url;
+		});
+	}
 
-	try {
-		const data = await vault.readBinary(resolved);
-		const mimeType = getMimeType(resolved.extension);
-		if (!mimeType) return null;
+	let image = { data, mimeType: IMAGE_MIME_TYPES[ext] ?? CONVERTED_IMAGE_TYPES[ext], filename: file.name };
+	if (ext in CONVERTED_IMAGE_TYPES) {
+		const converted = await convertImage(image);
+		if (!converted) throw new ImageConversionError(ext);
+		image = converted;
+	}
+	if (image.mimeType === "image/svg+xml") {
+		const { svg, removed } = sanitizeSvg(new TextDecoder().decode(data));
+		if (removed.length > 0) {
+			image = { ...image, data: new TextEncoder().encode(svg).buffer };
+			ctx.sanitizedSvgs?.push({ path: file.path, removed });
+		}
+	}
+	if (ctx.stripImageMetadata) {
+		image = await stripImageMetadata(image);
+	}
+	if (ctx.imageOptimization) {
+		const before = image.data;
+		image = await optimizeImage(image, ctx.imageOptimization);
+		if (image.data !== before && ctx.imageSavings) {
+			ctx.imageSavings.before += before.byteLength;
+			ctx.imageSavings.after += image.data.byteLength;
+		}
+	}
+	return uploadCached(image.data, ctx.imageCache, async () => {
+		return (await uploadAttachment(apiKey, image.data, image.filename, image.mimeType)).url;
+	});
+}
 
-		const result = await uploadImage(apiKey, data, resolved.name, mimeType);
-		return result.url;
-	} catch {
-		return null;
+/**
+ * Reuse the earlier upload of these exact bytes, or run `upload` and remember
+ * its URL. The cache is keyed by what's actually sent, so changing the image
+ * settings uploads afresh.
+ */
+async function uploadCached(
+	data: ArrayBuffer,
+	imageCache: Record<string, string> | undefined,
+	upload: () => Promise<string>
+): Promise<string> {
+	// Unchanged bytes reuse their earlier upload — unless that URL has since
+	// stopped serving (the file was purged server-side), in which case the
+	// stale entry is replaced by a fresh upload below.
+	const hash = imageCache ? await sha256Hex(data) : "";
+	const cached = imageCache?.[hash];
+	if (cached && (await imageUrlExists(cached))) {
+		return cached;
 	}
+
+	const url = await upload();
+	if (imageCache) imageCache[hash] = url;
+	return url;
 }
 
-function getMimeType(ext: string): string | null {
-	const map: Record<string, string> = {
-		png: "image/png",
-		jpg: "image/jpeg",
-		jpeg: "image/jpeg",
-		gif: "image/gif",
-		webp: "image/webp",
-		svg: "image/svg+xml",
-	};
-	return map[ext.toLowerCase()] ?? null;
+/**
+ * A hash of everything a publish sends that shapes the page: the body, the
+ * title and how it's shown, and the page settings. Equal fingerprints mean
+ * republishing would change nothing.
+ */
+export async function contentFingerprint(
+	markdown: string,
+	title: string,
+	renderTitle: boolean,
+	settings: PagePublishSettings | undefined
+): Promise<string> {
+	const input = JSON.stringify([markdown, title, renderTitle, settings ?? null]);
+	return sha256Hex(new TextEncoder().encode(input).buffer);
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** How many notes deep ![[Note]] embeds are followed before they're left as-is. */
+const MAX_EMBED_DEPTH = 5;
+
+/**
+ * Inline embedded notes: ![[Note]], ![[Note#Heading]] and ![[Note#^blockid]].
+ * Each embedded note runs through the full pipeline with its own path, so its
+ * links and images resolve as they do in Obsidian, and its own embeds are
+ * followed in turn. An embed that would revisit a note already being inlined
+ * (a cycle), goes deeper than MAX_EMBED_DEPTH, or names a missing note,
+ * heading or block is left untouched; one of an excluded note is removed.
+ * Image and other non-note embeds are left for collectAttachments.
+ *
+ * An inlined note comes back as a "rendered" node, so the transforms after
+ * this one don't process it a second time.
+ */
+async function transcludeNotes(nodes: MarkdownNode[], env: TransformEnv): Promise<MarkdownNode[]> {
+	const result: MarkdownNode[] = [];
+	for (const node of nodes) {
+		if (node.type !== "text") {
+			result.push(node);
+			continue;
+		}
+		let last = 0;
+		for (const { start, end, text } of await inlineEmbeds(node.value, env)) {
+			result.push({ type: "text", value: node.value.slice(last, start) }, { type: "rendered", value: text });
+			last = end;
+		}
+		result.push({ type: "text", value: node.value.slice(last) });
+	}
+	return result.filter((n) => n.value !== "");
+}
+
+/** The note embeds in one text node that can be inlined, processed, in order. */
+async function inlineEmbeds(
+	md: string,
+	{ vault, apiKey, shouldStripTags, ctx, ancestors, uploads }: TransformEnv
+): Promise<{ start: number; end: number; text: string }[]> {
+	const inlined: { start: number; end: number; text: string }[] = [];
+	if (!ctx) return inlined;
+	const embedRegex = /!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+
+	for (const match of md.matchAll(embedRegex)) {
+		const { linkpath, subpath } = splitLinktext(match[1]);
+		if (!linkpath) continue;
+
+		const dest = ctx.metadataCache.getFirstLinkpathDest(linkpath, ctx.sourcePath);
+		if (!dest || dest.extension !== "md") continue;
+		if (ctx.isExcluded?.(dest.path)) {
+			ctx.attachmentIssues?.push({
+				reference: match[0],
+				reason: "excluded",
+				message: `${match[0]} — excluded from publishing`,
+			});
+			inlined.push({ start: match.index, end: match.index + match[0].length, text: "" });
+			continue;
+		}
+		if (ancestors.includes(dest.path) || ancestors.length > MAX_EMBED_DEPTH) continue;
+
+		const content = stripFrontmatter(await vault.read(dest));
+		const part = subpath ? extractSubpath(content, subpath) : content;
+		if (part === null) continue;
+
+		const text = await processNote(
+			part,
+			vault,
+			apiKey,
+			shouldStripTags,
+			{ ...ctx, sourcePath: dest.path },
+			[...ancestors, dest.path],
+			uploads
+		);
+		inlined.push({ start: match.index, end: match.index + match[0].length, text });
+	}
+	return inlined;
+}
+
+/**
+ * The part of a note a heading or block subpath addresses, or null when the
+ * note has no such heading or block.
+ */
+function extractSubpath(md: string, subpath: string): string | null {
+	return subpath.startsWith("^")
+		? extractBlock(md, subpath.slice(1))
+		: extractSection(md, subpath);
+}
+
+/**
+ * A heading's section: the heading line and everything up to the next heading
+ * of the same or a higher level. Headings inside fenced code don't count.
+ */
+function extractSection(md: string, heading: string): string | null {
+	const lines = md.split("\n");
+	const wanted = heading.trim().toLowerCase();
+	let start = -1;
+	let level = 0;
+	let fence: string | null = null;
+
+	for (let i = 0; i < lines.length; i++) {
+		const fenceMatch = lines[i].match(/^\s*(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1];
+			else if (fenceMatch[1].startsWith(fence)) fence = null;
+			continue;
+		}
+		if (fence !== null) continue;
+
+		const h = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (!h) continue;
+		if (start === -1) {
+			if (h[2].trim().toLowerCase() === wanted) {
+				start = i;
+				level = h[1].length;
+			}
+		} else if (h[1].length <= level) {
+			return lines.slice(start, i).join("\n");
+		}
+	}
+	return start === -1 ? null : lines.slice(start).join("\n");
+}
+
+/**
+ * The block carrying a `^blockid` marker, with the marker removed. A marker on
+ * a list item addresses that item alone; one on its own line addresses the
+ * block above it; otherwise it addresses the paragraph it ends.
+ */
+function extractBlock(md: string, blockId: string): string | null {
+	const lines = md.split("\n");
+	const escaped = blockId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const marker = new RegExp(`(^|\\s)\\^${escaped}\\s*$`);
+
+	const at = lines.findIndex((line) => marker.test(line));
+	if (at === -1) return null;
+
+	const markerLine = lines[at].replace(marker, "").trimEnd();
+	if (/^\s*([-*+]|\d+[.)])\s/.test(markerLine)) return markerLine;
+
+	// A marker alone on its line labels the block that ends just above it.
+	const end = markerLine === "" ? at - 1 : at;
+	let start = end;
+	while (start > 0 && lines[start - 1].trim() !== "") start--;
+	if (end < start) return null;
+	const block = lines.slice(start, end + 1);
+	if (end === at) block[block.length - 1] = markerLine;
+	return block.join("\n");
+}
+
+/** Everything a transform may need besides the nodes themselves. */
+interface TransformEnv {
+	vault: Vault;
+	apiKey: string;
+	shouldStripTags: boolean;
+	ctx: PublishContext | undefined;
+	/** The notes being inlined around this one, outermost first. */
+	ancestors: string[];
+	/** Attachments queued for upload across the whole embed tree (see collectAttachments). */
+	uploads: AttachmentReference[];
 }
 
+/**
+ * One named step of the publish pipeline. Transforms run in TRANSFORMS order
+ * over the note's parsed nodes (see parseMarkdown) and rewrite text nodes
+ * only, so code, math and HTML come through untouched — except that
+ * %%comments%% are stripped from HTML like any other, and embeds and wiki
+ * links within HTML are handled as in text (see mapTextAndHtml).
+ */
+interface Transform {
+	name: string;
+	run(nodes: MarkdownNode[], env: TransformEnv): MarkdownNode[] | Promise<MarkdownNode[]>;
+}
+
+// <script>, <pre>, <style> or <textarea>: raw content, never markdown
+const RAW_HTML_BLOCK = /^[ \t]*<(?:script|pre|style|textarea)(?:[\s>]|$)/i;
+
+/**
+ * Whether an HTML node may hold embeds or wiki links the page will show, as
+ * in `<div align="center">` around an image: any but a script, pre, style or
+ * textarea block.
+ */
+function holdsMarkdown(node: MarkdownNode): boolean {
+	return node.type === "html" && !RAW_HTML_BLOCK.test(node.value);
+}
+
+/** mapText, also rewriting the HTML nodes that may hold markdown (see holdsMarkdown). */
+function mapTextAndHtml(nodes: MarkdownNode[], fn: (text: string) => string): MarkdownNode[] {
+	return mapText(nodes, fn).map((n) => (holdsMarkdown(n) ? { ...n, value: fn(n.value) } : n));
+}
+
+/** An Obsidian %%comment%%, within a node the parser didn't split comments out of. */
+const COMMENT_REGEX = /%%[\s\S]*?%%/g;
+
+const TRANSFORMS: Transform[] = [
+	{
+		// An HTML block is one node, so a %%comment%% within it is taken out here
+		name: "strip-comments",
+		run: (nodes) =>
+			mergeText(
+				nodes
+					.filter((n) => n.type !== "comment")
+					.map((n) => (n.type === "html" ? { ...n, value: n.value.replace(COMMENT_REGEX, "") } : n))
+			),
+	},
+	{
+		// Before anything that reads links or uploads files, so nothing private
+		// is checked, fetched or sent.
+		name: "strip-private-sections",
+		run: (nodes) => stripPrivateSections(nodes),
+	},
+	{
+		// Checked before any image is uploaded, so a blocked publish sends nothing.
+		name: "block-unpublished-links",
+		run: (nodes, { ctx }) => {
+			if (ctx?.unpublishedLinks === "block") {
+				const unpublished = findUnpublishedLinks(nodes, ctx);
+				if (unpublished.length > 0) throw new UnpublishedLinksError(unpublished);
+			}
+			return nodes;
+		},
+	},
+	{
+		name: "transclude-notes",
+		run: (nodes, env) => (env.ctx ? transcludeNotes(nodes, env) : nodes),
+	},
+	{
+		// Before converting wiki links, so ![[image.png]] is still intact
+		name: "collect-attachments",
+		run: (nodes, { uploads, ctx }) => collectAttachments(nodes, uploads, ctx),
+	},
+	{
+		name: "convert-wiki-links",
+		run: (nodes, { ctx }) => mapTextAndHtml(nodes, (text) => convertNoteLinks(convertWikiLinks(text, ctx), ctx)),
+	},
+	{
+		name: "strip-tags",
+		run: (nodes, { shouldStripTags }) => (shouldStripTags ? mapText(nodes, stripTags) : nodes),
+	},
+];
+
 /**
  * Process markdown content for publishing.
- * Strips frontmatter, converts wiki links, strips comments,
- * optionally strips tags, and uploads local images.
+ * Strips frontmatter, then runs the note through TRANSFORMS: strips comments
+ * and private sections, inlines embedded notes, collects local images and attachments, converts wiki
+ * links and optionally strips tags. The attachments of the note and every
+ * note it embeds are then uploaded together, and the user's replacement rules
+ * run over the result.
+ * Without a `ctx`, every wiki link is flattened to plain text and note embeds
+ * are not followed.
  */
 export async function processMarkdown(
 	content: string,
 	vault: Vault,
 	apiKey: string,
-	shouldStripTags: boolean
+	shouldStripTags: boolean,
+	ctx?: PublishContext
 ): Promise<string> {
-	let md = stripFrontmatter(content);
-	md = stripComments(md);
-	// Process images before converting wiki links, so ![[image.png]] is still intact
-	md = await processImages(md, vault, apiKey);
-	md = convertWikiLinks(md);
-	if (shouldStripTags) {
-		md = stripTags(md);
+	const uploads: AttachmentReference[] = [];
+	let md = await processNote(
+		stripFrontmatter(content),
+		vault,
+		apiKey,
+		shouldStripTags,
+		ctx,
+		ctx ? [ctx.sourcePath] : [],
+		uploads
+	);
+	if (!ctx) return md;
+	md = await uploadAttachments(md, uploads, vault, apiKey, ctx);
+	if (!ctx.replacementRules) return md;
+	return applyReplacementRules(md, ctx.replacementRules, ctx.sourcePath).trim();
+}
+
+/**
+ * The pipeline behind processMarkdown, for a body already stripped of its
+ * frontmatter. `ancestors` are the notes being inlined around this one,
+ * outermost first — what transcludeNotes checks for cycles and depth.
+ * Attachments are only queued on `uploads`; processMarkdown uploads them
+ * once the whole embed tree is processed.
+ */
+async function processNote(
+	body: string,
+	vault: Vault,
+	apiKey: string,
+	shouldStripTags: boolean,
+	ctx: PublishContext | undefined,
+	ancestors: string[],
+	uploads: AttachmentReference[]
+): Promise<string> {
+	const env: TransformEnv = { vault, apiKey, shouldStripTags, ctx, ancestors, uploads };
+	let nodes = parseMarkdown(body);
+	for (const transform of TRANSFORMS) {
+		nodes = await transform.run(nodes, env);
 	}
 	// Trim leading/trailing whitespace
-	md = md.trim();
-	return md;
+	return renderMarkdown(nodes).trim();
 }
 
 /**
@@ -216,12 +1109,9 @@ export async function processMarkdown(
  */
 export function extractTitle(content: string, file: TFile): string {
 	// Try frontmatter title first
-	const fmMatch = content.match(/^---\r?\n[\s\S]*?\r?\n---/);
-	if (fmMatch) {
-		const titleMatch = fmMatch[0].match(/^title:\s*(.+)$/m);
-		if (titleMatch) {
-			return titleMatch[1].trim().replace(/^["']|["']$/g, "");
-		}
+	const fmTitle = frontmatterTitle(content);
+	if (fmTitle !== null) {
+		return fmTitle;
 	}
 
 	// Try first H1
@@ -235,6 +1125,13 @@ export function extractTitle(content: string, file: TFile): string {
 	return file.basename;
 }
 
+/** The `title:` in the note's frontmatter, unquoted, or null when it has none. */
+function frontmatterTitle(content: string): string | null {
+	const fmMatch = content.match(/^---\r?\n[\s\S]*?\r?\n---/);
+	const titleMatch = fmMatch?.[0].match(/^title:\s*(.+)$/m);
+	return titleMatch ? titleMatch[1].trim().replace(/^["']|["']$/g, "") : null;
+}
+
 export type TitleMode = "auto" | "filename" | "h1";
 
 export interface ResolvedTitle {
@@ -248,22 +1145,30 @@ export interface ResolvedTitle {
 
 /**
  * Resolve the published title and adjust the body per the user's title mode.
- * `markdown` is the already-processed body; `content` is the raw note.
+ * `markdown` is the already-processed body; `content` is the raw note, read
+ * only for its frontmatter title.
  *
  * - "auto": historical behavior — inject `# <title>` as a body heading only when the
  *   body has none. No dedicated header (renderTitle = false). Output is unchanged.
  * - "filename": render the filename as a dedicated page title; body left untouched.
  * - "h1": render the body's first H1 as the page title and remove it from the body so
  *   it isn't shown twice; falls back to the filename when the body has no H1.
+ *
+ * A title taken from the frontmatter or filename goes through `rules` (see
+ * applyReplacementRules) as the body already has; one taken from the body's H1
+ * is used as it is.
  */
 export function applyTitleMode(
 	mode: TitleMode,
 	markdown: string,
 	content: string,
-	file: TFile
+	file: TFile,
+	rules: ReplacementRule[] = []
 ): ResolvedTitle {
+	const scrub = (title: string) => applyReplacementRules(title, rules, file.path).trim();
+
 	if (mode === "filename") {
-		return { title: file.basename, renderTitle: true, markdown };
+		return { title: scrub(file.basename), renderTitle: true, markdown };
 	}
 
 	if (mode === "h1") {
@@ -274,11 +1179,15 @@ export function applyTitleMode(
 			return { title: h1Match[1].trim(), renderTitle: true, markdown: body };
 		}
 		// No H1 in the body — fall back to the filename.
-		return { title: file.basename, renderTitle: true, markdown };
+		return { title: scrub(file.basename), renderTitle: true, markdown };
 	}
 
-	// "auto" (default): preserve historical behavior exactly.
-	const title = extractTitle(content, file);
+	// "auto" (default): preserve historical behavior — except that the H1 is
+	// looked for in the processed body, so one in a private section or
+	// %%comment%% never becomes the title.
+	const fmTitle = frontmatterTitle(content);
+	const h1Title = markdown.match(/^#\s+(.+)$/m)?.[1].trim();
+	const title = fmTitle !== null ? scrub(fmTitle) : (h1Title ?? scrub(file.basename));
 	let body = markdown;
 	if (!/^# /.test(body)) {
 		body = `# ${title}\n\n${body}`;
@@ -7,7 +7,7 @@ vi.mock("./api", () => ({
 }));
 
 import { getPageSettings, updatePageSettings } from "./api";
-import { PageSettingsModal } from "./modals";
+import { BulkProgressModal, PageSettingsModal, SecretFindingsModal } from "./modals";
 import type JotBirdPlugin from "./main";
 import type { PageSettingsView, PublishedNote } from "./types";
 
@@ -308,3 +308,70 @@ describe("PageSettingsModal — patch construction", () => {
 		});
 	});
 });
+
+describe("SecretFindingsModal", () => {
+	const findings = [{ kind: "Email address", match: "a@b.co", line: 1, context: "a@b.co" }];
+
+	function buttons(modal: SecretFindingsModal) {
+		modal.onOpen();
+		return renderedSettings.flatMap((s) => s.buttons);
+	}
+
+	beforeEach(() => {
+		resetRenderedSettings();
+	});
+
+	it("answers with the button the user clicks, once", () => {
+		const onResult = vi.fn();
+		const modal = new SecretFindingsModal({} as never, "note", findings, onResult);
+		buttons(modal).find((b) => b.text === "Publish anyway")!.click();
+		modal.onClose();
+		expect(onResult.mock.calls).toEqual([[true]]);
+	});
+
+	it("treats dismissing the modal as cancel", () => {
+		const onResult = vi.fn();
+		const modal = new SecretFindingsModal({} as never, "note", findings, onResult);
+		modal.onOpen();
+		modal.onClose();
+		expect(onResult.mock.calls).toEqual([[false]]);
+	});
+});
+
+describe("BulkProgressModal", () => {
+	beforeEach(() => {
+		resetRenderedSettings();
+	});
+
+	function button(modal: BulkProgressModal) {
+		modal.onOpen();
+		return renderedSettings.flatMap((s) => s.buttons)[0];
+	}
+
+	it("cancels from the button, then offers to close once the run ends", () => {
+		const modal = new BulkProgressModal({} as never, "Publishing", ["a.md", "b.md"]);
+		const btn = button(modal);
+		expect(btn.text).toBe("Cancel");
+
+		btn.click();
+		expect(modal.cancelled).toBe(true);
+		expect(btn.disabled).toBe(true);
+
+		modal.finish("Cancelled: 1 published, 1 not started.");
+		expect(btn.text).toBe("Close");
+		expect(btn.disabled).toBe(false);
+	});
+
+	it("treats closing mid-run as cancel, but not closing after the run", () => {
+		const running = new BulkProgressModal({} as never, "Publishing", ["a.md"]);
+		running.onOpen();
+		running.onClose();
+		expect(running.cancelled).toBe(true);
+
+		const done = new BulkProgressModal({} as never, "Publishing", ["a.md"]);
+		done.onOpen();
+		done.finish("Done: 1 published.");
+		done.onClose();
+		expect(done.cancelled).toBe(false);
+	});
+});
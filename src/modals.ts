@@ -1,6 +1,7 @@
-import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { App, Modal, Notice, Setting, TFile, type ButtonComponent } from "obsidian";
 import {
 	DocumentListItem,
+	NoteActionResult,
 	PageSettingsPatch,
 	PageSettingsView,
 	PageVisibility,
@@ -16,6 +17,7 @@ import {
 	FM_THEME,
 	type SettingProperty,
 } from "./pageSettings";
+import type { SecretFinding } from "./scanner";
 import type JotBirdPlugin from "./main";
 
 export class ConfirmModal extends Modal {
@@ -55,6 +57,146 @@ export class ConfirmModal extends Modal {
 	}
 }
 
+/**
+ * Lists what the secret scanner found in a note that's about to be published,
+ * each with the line it's on, and asks whether to publish anyway. `onResult`
+ * gets the answer: false for Cancel, and when the modal is dismissed.
+ */
+export class SecretFindingsModal extends Modal {
+	private noteName: string;
+	private findings: SecretFinding[];
+	private onResult: (publish: boolean) => void;
+	private answered = false;
+
+	constructor(app: App, noteName: string, findings: SecretFinding[], onResult: (publish: boolean) => void) {
+		super(app);
+		this.noteName = noteName;
+		this.findings = findings;
+		this.onResult = onResult;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const count = this.findings.length;
+		contentEl.createEl("p", {
+			text: `"${this.noteName}" contains ${count === 1 ? "something" : `${count} things`} that look${count === 1 ? "s" : ""} like a secret or personal detail. Publishing makes ${count === 1 ? "it" : "them"} public.`,
+		});
+
+		const list = contentEl.createEl("ul", { cls: "jotbird-secret-findings" });
+		for (const finding of this.findings) {
+			const item = list.createEl("li");
+			item.createEl("div", { text: `${finding.kind} — line ${finding.line}`, cls: "jotbird-secret-kind" });
+			item.createEl("code", { text: finding.context, cls: "jotbird-secret-context" });
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.answer(false)))
+			.addButton((btn) =>
+				btn
+					.setButtonText("Publish anyway")
+					.setWarning()
+					.onClick(() => this.answer(true))
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.answered) {
+			this.answered = true;
+			this.onResult(false);
+		}
+	}
+
+	private answer(publish: boolean): void {
+		this.answered = true;
+		this.close();
+		this.onResult(publish);
+	}
+}
+
+const RESULT_LABELS: Record<NoteActionResult["status"], string> = {
+	published: "Published",
+	updated: "Updated",
+	unpublished: "Unpublished",
+	skipped: "Skipped",
+	failed: "Failed",
+};
+
+/**
+ * Progress for a bulk action over many notes (see JotBirdPlugin.runBulk): one
+ * row per note, filled in as each finishes, and a Cancel button that becomes
+ * Close once the run ends. Cancelling — or closing the modal mid-run — sets
+ * `cancelled`; the runner stops before the next note.
+ */
+export class BulkProgressModal extends Modal {
+	cancelled = false;
+	private heading: string;
+	private paths: string[];
+	private statusEls: HTMLElement[] = [];
+	private summaryEl: HTMLElement | null = null;
+	private button: ButtonComponent | null = null;
+	private finished = false;
+
+	constructor(app: App, heading: string, paths: string[]) {
+		super(app);
+		this.heading = heading;
+		this.paths = paths;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: this.heading });
+		this.summaryEl = contentEl.createEl("p", { text: `0 of ${this.paths.length} done.` });
+
+		const list = contentEl.createEl("ul", { cls: "jotbird-bulk-list" });
+		this.statusEls = this.paths.map((path) => {
+			const item = list.createEl("li");
+			item.createEl("span", { text: path, cls: "jotbird-bulk-path" });
+			return item.createEl("span", { text: "Waiting", cls: "jotbird-bulk-status" });
+		});
+
+		new Setting(contentEl).addButton((btn) => {
+			this.button = btn;
+			btn.setButtonText("Cancel").onClick(() => {
+				if (this.finished) {
+					this.close();
+				} else {
+					this.cancelled = true;
+					btn.setButtonText("Stopping…").setDisabled(true);
+				}
+			});
+		});
+	}
+
+	setRunning(index: number): void {
+		this.statusEls[index]?.setText("Working…");
+	}
+
+	setWaiting(index: number, seconds: number): void {
+		this.statusEls[index]?.setText(`Rate limited — retrying in ${seconds}s`);
+	}
+
+	setResult(index: number, result: NoteActionResult): void {
+		const el = this.statusEls[index];
+		if (el) {
+			el.setText(result.message ? `${RESULT_LABELS[result.status]} — ${result.message}` : RESULT_LABELS[result.status]);
+			el.addClass(`jotbird-bulk-${result.status}`);
+		}
+		this.summaryEl?.setText(`${index + 1} of ${this.paths.length} done.`);
+	}
+
+	finish(summary: string): void {
+		this.finished = true;
+		this.summaryEl?.setText(summary);
+		this.button?.setButtonText("Close").setDisabled(false);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.finished) this.cancelled = true;
+	}
+}
+
 /**
  * Page settings for one published note: theme, branding, visibility — and
  * nothing else (tags stay web-app-only; expiry is owned by the publish flow).
@@ -79,12 +221,15 @@ export class PageSettingsModal extends Modal {
 		password: string;
 	} = { theme: "default", hideBranding: false, visibility: "unlisted", password: "" };
 	private saving = false;
+	/** Called once the modal closes; opening several notes' settings in turn chains on it. */
+	private onClosed: (() => void) | undefined;
 
-	constructor(app: App, plugin: JotBirdPlugin, file: TFile, published: PublishedNote) {
+	constructor(app: App, plugin: JotBirdPlugin, file: TFile, published: PublishedNote, onClosed?: () => void) {
 		super(app);
 		this.plugin = plugin;
 		this.file = file;
 		this.published = published;
+		this.onClosed = onClosed;
 	}
 
 	onOpen(): void {
@@ -371,6 +516,7 @@ export class PageSettingsModal extends Modal {
 
 	onClose(): void {
 		this.contentEl.empty();
+		this.onClosed?.();
 	}
 }
 
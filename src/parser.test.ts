@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { mapText, mergeText, parseMarkdown, renderMarkdown, type MarkdownNode } from "./parser";
+
+/** The non-text nodes of `md`, as [type, value] pairs. */
+function spans(md: string): [string, string][] {
+	return parseMarkdown(md)
+		.filter((n) => n.type !== "text")
+		.map((n) => [n.type, n.value]);
+}
+
+describe("parseMarkdown", () => {
+	it("round-trips the input exactly", () => {
+		const md = "# Title\n\n```js\nx `y`\n```\n\nText `code` $m$ %%c%% <!-- h -->\n\n    indented\n";
+		expect(renderMarkdown(parseMarkdown(md))).toBe(md);
+	});
+
+	it("finds fenced code blocks, closed or not", () => {
+		expect(spans("a\n```\n%%x%%\n```\nb")).toEqual([["code", "```\n%%x%%\n```"]]);
+		expect(spans("a\n~~~~\n~~~\n~~~~\nb")).toEqual([["code", "~~~~\n~~~\n~~~~"]]);
+		expect(spans("a\n```\nrest of note")).toEqual([["code", "```\nrest of note"]]);
+	});
+
+	it("finds fences inside blockquotes and list items", () => {
+		expect(spans("> ```\n> x\n> ```")).toEqual([["code", "> ```\n> x\n> ```"]]);
+		expect(spans("- item\n  ```\n  x\n  ```")).toEqual([["code", "  ```\n  x\n  ```"]]);
+	});
+
+	it("finds indented code after a blank line, but not list continuations", () => {
+		expect(spans("Para\n\n    code\n\n    more\nafter")).toEqual([["code", "    code\n\n    more"]]);
+		expect(spans("Para\n    not code")).toEqual([]);
+		expect(spans("- item\n\n    continuation")).toEqual([]);
+		expect(spans("- item\n\t- nested")).toEqual([]);
+	});
+
+	it("matches inline code by backtick run length", () => {
+		expect(spans("a ``x ` y`` b")).toEqual([["code", "``x ` y``"]]);
+		expect(spans("a ` unmatched")).toEqual([]);
+		expect(spans("a `x\n\ny` b")).toEqual([]);
+	});
+
+	it("finds inline and display math, but not prices", () => {
+		expect(spans("$x^2$ and $$\ny\n$$")).toEqual([
+			["math", "$x^2$"],
+			["math", "$$\ny\n$$"],
+		]);
+		expect(spans("costs $5 or $10")).toEqual([]);
+		expect(spans("costs $5/$6")).toEqual([]);
+	});
+
+	it("finds HTML blocks and comments", () => {
+		expect(spans("<div>\n[[x]]\n</div>\n\ntext")).toEqual([["html", "<div>\n[[x]]\n</div>"]]);
+		expect(spans("<pre>\na\n\nb\n</pre>\ntext")).toEqual([["html", "<pre>\na\n\nb\n</pre>"]]);
+		expect(spans("a <!-- x --> b")).toEqual([["html", "<!-- x -->"]]);
+		expect(spans("a\n<span>x</span>")).toEqual([]);
+	});
+
+	it("lets whichever construct opens first win", () => {
+		expect(spans("%% `x` %%")).toEqual([["comment", "%% `x` %%"]]);
+		expect(spans("`%%` x %%")).toEqual([["code", "`%%`"]]);
+		expect(spans("\\`x` and \\$y$")).toEqual([]);
+	});
+});
+
+describe("mapText", () => {
+	it("rewrites text nodes only, telling each what precedes it", () => {
+		const nodes = parseMarkdown("a `b` c");
+		const seen: string[] = [];
+		const mapped = mapText(nodes, (text, before) => {
+			seen.push(before);
+			return text.toUpperCase();
+		});
+		expect(renderMarkdown(mapped)).toBe("A `b` C");
+		expect(seen).toEqual(["\n", "`"]);
+	});
+});
+
+describe("mergeText", () => {
+	it("joins neighbouring text nodes", () => {
+		const nodes: MarkdownNode[] = [
+			{ type: "text", value: "a" },
+			{ type: "text", value: "b" },
+			{ type: "code", value: "`c`" },
+			{ type: "text", value: "d" },
+		];
+		expect(mergeText(nodes)).toEqual([
+			{ type: "text", value: "ab" },
+			{ type: "code", value: "`c`" },
+			{ type: "text", value: "d" },
+		]);
+	});
+});
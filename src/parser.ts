@@ -0,0 +1,304 @@
+/**
+ * A small markdown tokenizer for the publish pipeline. It splits a note into
+ * the text the pipeline may rewrite and the spans it must leave alone: code
+ * (fenced, indented and inline), math, HTML blocks and comments, and Obsidian
+ * %%comments%%. Whichever construct opens first wins, as in Obsidian: a `%%`
+ * inside a code block is code, and a code fence inside a %%comment%% is
+ * comment.
+ *
+ * This is deliberately not a full CommonMark parser — paragraphs, lists and
+ * links stay text, which is what the transforms in markdown.ts work on.
+ */
+
+export type MarkdownNodeType =
+	/** Ordinary markdown the transforms rewrite. */
+	| "text"
+	/** Fenced, indented or inline code, delimiters included. */
+	| "code"
+	/** $inline$ or $$display$$ math, delimiters included. */
+	| "math"
+	/** An HTML block, or an inline <!-- HTML comment -->. */
+	| "html"
+	/** An Obsidian %%comment%%, delimiters included. */
+	| "comment"
+	/** Markdown already processed elsewhere (an inlined note) that later transforms leave alone. */
+	| "rendered";
+
+export interface MarkdownNode {
+	type: MarkdownNodeType;
+	value: string;
+}
+
+/** Tags that open an HTML block running to the next blank line (CommonMark type 6). */
+const HTML_BLOCK_TAGS = new Set([
+	"address", "article", "aside", "base", "basefont", "blockquote", "body", "caption", "center",
+	"col", "colgroup", "dd", "details", "dialog", "dir", "div", "dl", "dt", "fieldset", "figcaption",
+	"figure", "footer", "form", "frame", "frameset", "h1", "h2", "h3", "h4", "h5", "h6", "head",
+	"header", "hr", "html", "iframe", "legend", "li", "link", "main", "menu", "menuitem", "nav",
+	"noframes", "ol", "optgroup", "option", "p", "param", "search", "section", "summary", "table",
+	"tbody", "td", "tfoot", "th", "thead", "title", "tr", "track", "ul",
+]);
+
+/** Tags whose HTML block runs to their closing tag, blank lines and all (type 1). */
+const RAW_HTML_TAGS = ["script", "pre", "style", "textarea"];
+
+// A fence may sit inside a blockquote or callout ("> ```") or a list item.
+const FENCE_OPEN = /[ \t]*(?:>[ \t]*)*(`{3,}|~{3,})([^\n]*)/y;
+const FENCE_CLOSE = /^[ \t]*(?:>[ \t]*)*(`{3,}|~{3,})[ \t]*$/;
+const LIST_ITEM = /^[ \t]*(?:[-*+]|\d+[.)])[ \t]/;
+
+/** Split markdown into nodes. Rendering the nodes back gives the input exactly. */
+export function parseMarkdown(md: string): MarkdownNode[] {
+	const nodes: MarkdownNode[] = [];
+	let text = "";
+	const push = (type: MarkdownNodeType, value: string) => {
+		if (text) nodes.push({ type: "text", value: text });
+		text = "";
+		nodes.push({ type, value });
+	};
+
+	let pos = 0;
+	while (pos < md.length) {
+		if (pos === 0 || md[pos - 1] === "\n") {
+			const end = fencedCodeEnd(md, pos) ?? htmlBlockEnd(md, pos) ?? indentedCodeEnd(md, pos);
+			if (end !== null) {
+				push(end.type, md.slice(pos, end.end));
+				pos = end.end;
+				continue;
+			}
+		}
+
+		const c = md[pos];
+		if (c === "\\" && pos + 1 < md.length) {
+			text += md.slice(pos, pos + 2);
+			pos += 2;
+			continue;
+		}
+		if (c === "`") {
+			const run = runLength(md, pos, "`");
+			const end = codeSpanEnd(md, pos, run);
+			if (end === null) {
+				text += md.slice(pos, pos + run);
+				pos += run;
+			} else {
+				push("code", md.slice(pos, end));
+				pos = end;
+			}
+			continue;
+		}
+		if (c === "%" && md[pos + 1] === "%") {
+			const close = md.indexOf("%%", pos + 2);
+			if (close !== -1) {
+				push("comment", md.slice(pos, close + 2));
+				pos = close + 2;
+				continue;
+			}
+		}
+		if (c === "$") {
+			const end = mathEnd(md, pos);
+			if (end !== null) {
+				push("math", md.slice(pos, end));
+				pos = end;
+				continue;
+			}
+		}
+		if (md.startsWith("<!--", pos)) {
+			const close = md.indexOf("-->", pos + 4);
+			if (close !== -1) {
+				push("html", md.slice(pos, close + 3));
+				pos = close + 3;
+				continue;
+			}
+		}
+		text += c;
+		pos++;
+	}
+	if (text) nodes.push({ type: "text", value: text });
+	return nodes;
+}
+
+export function renderMarkdown(nodes: MarkdownNode[]): string {
+	return nodes.map((n) => n.value).join("");
+}
+
+/**
+ * Rewrite every text node with `fn`, leaving all other nodes as they are.
+ * `before` is the character just ahead of the node in the document ("\n" at
+ * the very start), for transforms that care whether they're at a line start.
+ */
+export function mapText(
+	nodes: MarkdownNode[],
+	fn: (text: string, before: string) => string
+): MarkdownNode[] {
+	let before = "\n";
+	return nodes.map((node) => {
+		const prev = before;
+		before = node.value ? node.value[node.value.length - 1] : before;
+		return node.type === "text" ? { type: "text", value: fn(node.value, prev) } : node;
+	});
+}
+
+/** Merge neighbouring text nodes, e.g. after the nodes between them were dropped. */
+export function mergeText(nodes: MarkdownNode[]): MarkdownNode[] {
+	const merged: MarkdownNode[] = [];
+	for (const node of nodes) {
+		const last = merged[merged.length - 1];
+		if (node.type === "text" && last?.type === "text") {
+			merged[merged.length - 1] = { type: "text", value: last.value + node.value };
+		} else {
+			merged.push(node);
+		}
+	}
+	return merged;
+}
+
+type BlockEnd = { type: MarkdownNodeType; end: number };
+
+/** A fenced code block opening at `pos` runs to its closing fence, or to the end of the note. */
+function fencedCodeEnd(md: string, pos: number): BlockEnd | null {
+	FENCE_OPEN.lastIndex = pos;
+	const open = FENCE_OPEN.exec(md);
+	if (!open) return null;
+	const fence = open[1];
+	// A backtick fence's info string can't itself contain a backtick (that's inline code)
+	if (fence[0] === "`" && open[2].includes("`")) return null;
+
+	let lineStart = lineEnd(md, pos) + 1;
+	while (lineStart < md.length) {
+		const end = lineEnd(md, lineStart);
+		const close = FENCE_CLOSE.exec(md.slice(lineStart, end));
+		if (close && close[1][0] === fence[0] && close[1].length >= fence.length) {
+			return { type: "code", end };
+		}
+		if (end >= md.length) break;
+		lineStart = end + 1;
+	}
+	return { type: "code", end: md.length };
+}
+
+/** An HTML block starting at `pos`, per CommonMark's block types 1, 2, 6 and 7. */
+function htmlBlockEnd(md: string, pos: number): BlockEnd | null {
+	const line = md.slice(pos, lineEnd(md, pos));
+	const start = /^ {0,3}<(!--|\/?([A-Za-z][A-Za-z0-9-]*))/.exec(line);
+	if (!start) return null;
+
+	if (start[1] === "!--") {
+		const close = md.indexOf("-->", pos + line.indexOf("<!--") + 4);
+		if (close === -1) return null;
+		return { type: "html", end: lineEnd(md, close) };
+	}
+
+	const tag = start[2].toLowerCase();
+	if (RAW_HTML_TAGS.includes(tag) && !start[1].startsWith("/")) {
+		const close = md.toLowerCase().indexOf(`</${tag}>`, pos);
+		return { type: "html", end: close === -1 ? md.length : lineEnd(md, close) };
+	}
+
+	// Any other tag only starts a block alone on its line, and not mid-paragraph
+	const completeTagLine = /^ {0,3}<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>\s*$/.test(line);
+	if (!HTML_BLOCK_TAGS.has(tag) && !(completeTagLine && followsBlankLine(md, pos))) return null;
+	return { type: "html", end: blockEnd(md, pos) };
+}
+
+/**
+ * Indented code: lines indented four spaces or a tab, after a blank line. It
+ * can't continue a list (that's list content) or interrupt a paragraph.
+ */
+function indentedCodeEnd(md: string, pos: number): BlockEnd | null {
+	if (!isIndentedCodeLine(md.slice(pos, lineEnd(md, pos)))) return null;
+	if (!followsBlankLine(md, pos)) return null;
+	if (pos > 0) {
+		const lines = md.slice(0, pos - 1).split("\n");
+		const previous = [...lines].reverse().find((l) => l.trim() !== "");
+		if (previous !== undefined && (LIST_ITEM.test(previous) || /^(?: {4}|\t)/.test(previous))) return null;
+	}
+
+	let end = lineEnd(md, pos);
+	let next = end + 1;
+	while (next < md.length) {
+		const nextEnd = lineEnd(md, next);
+		const line = md.slice(next, nextEnd);
+		if (isIndentedCodeLine(line)) end = nextEnd;
+		else if (line.trim() !== "") break;
+		next = nextEnd + 1;
+	}
+	return { type: "code", end };
+}
+
+/** Whether the line starting at `pos` is the first in the note or follows a blank line. */
+function followsBlankLine(md: string, pos: number): boolean {
+	if (pos === 0) return true;
+	const previous = md.slice(md.lastIndexOf("\n", pos - 2) + 1, pos - 1);
+	return previous.trim() === "";
+}
+
+function isIndentedCodeLine(line: string): boolean {
+	return /^(?: {4}|\t)/.test(line) && line.trim() !== "";
+}
+
+/**
+ * The end of an inline code span opened by `run` backticks at `pos`: the next
+ * run of exactly as many, within the same paragraph. Null when there's none —
+ * the backticks are then literal.
+ */
+function codeSpanEnd(md: string, pos: number, run: number): number | null {
+	let i = pos + run;
+	while (i < md.length) {
+		if (md[i] === "\n" && /^\n[ \t]*(?:\n|$)/.test(md.slice(i, i + 80))) return null;
+		if (md[i] === "`") {
+			const closing = runLength(md, i, "`");
+			if (closing === run) return i + run;
+			i += closing;
+		} else {
+			i++;
+		}
+	}
+	return null;
+}
+
+/**
+ * The end of math opening at `pos`: $$display$$ may span lines; $inline$ must
+ * close on the same line, its content can't start or end with a space, and the
+ * closing $ can't be followed by a digit (so "$5 and $10" is just prices).
+ */
+function mathEnd(md: string, pos: number): number | null {
+	if (md[pos + 1] === "$") {
+		const close = md.indexOf("$$", pos + 2);
+		return close === -1 ? null : close + 2;
+	}
+	if (pos + 1 >= md.length || /\s/.test(md[pos + 1])) return null;
+	for (let i = pos + 1; i < md.length && md[i] !== "\n"; i++) {
+		if (md[i] === "\\") {
+			i++;
+			continue;
+		}
+		if (md[i] === "$") {
+			if (/\s/.test(md[i - 1]) || /\d/.test(md[i + 1] ?? "")) return null;
+			return i + 1;
+		}
+	}
+	return null;
+}
+
+function runLength(md: string, pos: number, char: string): number {
+	let n = 0;
+	while (md[pos + n] === char) n++;
+	return n;
+}
+
+/** Index of the "\n" ending the line containing `pos`, or the end of the note. */
+function lineEnd(md: string, pos: number): number {
+	const nl = md.indexOf("\n", pos);
+	return nl === -1 ? md.length : nl;
+}
+
+/** The end of the block starting at `pos`: the line before the next blank line. */
+function blockEnd(md: string, pos: number): number {
+	let end = lineEnd(md, pos);
+	while (end < md.length) {
+		const nextEnd = lineEnd(md, end + 1);
+		if (md.slice(end + 1, nextEnd).trim() === "") break;
+		end = nextEnd;
+	}
+	return end;
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { buildRows, filterRows, sortRows, type PublishedRow } from "./publishedView";
+import type { DocumentListItem, PageSettingsView, PublishedNote } from "./types";
+
+const NOW = Date.parse("2026-05-01T12:00:00Z");
+
+const NOTES: Record<string, PublishedNote> = {
+	"Blog/launch.md": {
+		slug: "launch",
+		url: "https://share.jotbird.com/launch",
+		publishedAt: "2026-04-20T09:00:00Z",
+		expiresAt: null,
+	},
+	"Drafts/idea.md": {
+		slug: "idea",
+		url: "https://share.jotbird.com/idea",
+		editToken: "tok",
+		publishedAt: "2026-04-28T09:00:00Z",
+		expiresAt: "2026-05-03T00:00:00Z",
+	},
+	"Old/gone.md": {
+		slug: "gone",
+		url: "https://share.jotbird.com/gone",
+		publishedAt: "2026-01-02T09:00:00Z",
+		expiresAt: "2026-02-01T00:00:00Z",
+	},
+};
+
+const DOCUMENTS: DocumentListItem[] = [
+	{
+		slug: "launch",
+		title: "We're live",
+		url: "https://share.jotbird.com/launch",
+		source: "obsidian",
+		updatedAt: "2026-04-20T09:00:01Z",
+		expiresAt: "",
+	},
+	{
+		// Renamed in the web app since: matched by slug
+		slug: "idea",
+		title: "",
+		url: "https://share.jotbird.com/u/me/idea",
+		source: "obsidian",
+		updatedAt: "2026-04-28T09:00:01Z",
+		expiresAt: "2026-05-03T00:00:00Z",
+	},
+];
+
+function rows(documents: DocumentListItem[] | null = DOCUMENTS): PublishedRow[] {
+	return buildRows(NOTES, documents, (path) => (path === "Blog/launch.md" ? "up-to-date" : "modified"));
+}
+
+describe("buildRows", () => {
+	it("joins each published note with its page on the server", () => {
+		const [launch, idea, gone] = rows();
+		expect(launch).toMatchObject({
+			path: "Blog/launch.md",
+			title: "We're live",
+			expiresAt: null,
+			state: "up-to-date",
+			missing: false,
+		});
+		expect(idea).toMatchObject({
+			title: "idea",
+			url: "https://share.jotbird.com/u/me/idea",
+			expiresAt: "2026-05-03T00:00:00Z",
+			state: "modified",
+			missing: false,
+		});
+		expect(gone).toMatchObject({ title: "gone", missing: true });
+	});
+
+	it("adds the visibility and theme of the pages whose settings were loaded", () => {
+		const settings: PageSettingsView = {
+			slug: "launch",
+			username: null,
+			url: "https://share.jotbird.com/launch",
+			title: "We're live",
+			theme: "essay",
+			hideBranding: false,
+			visibility: "public",
+			tags: [],
+			expiresAt: null,
+		};
+		const [launch, idea] = buildRows(NOTES, DOCUMENTS, () => "up-to-date", { "Blog/launch.md": settings });
+		expect(launch).toMatchObject({ visibility: "public", theme: "essay" });
+		// Anonymous: no settings to load
+		expect(idea).toMatchObject({ visibility: null, theme: null });
+	});
+
+	it("falls back to the local records when the server wasn't asked", () => {
+		const [launch, , gone] = rows(null);
+		expect(launch).toMatchObject({ title: "launch", missing: false });
+		expect(gone).toMatchObject({ expiresAt: "2026-02-01T00:00:00Z", missing: false });
+	});
+});
+
+describe("filterRows", () => {
+	const paths = (filtered: PublishedRow[]) => filtered.map((row) => row.path);
+
+	it("filters by state", () => {
+		expect(paths(filterRows(rows(), "all", "", 7, NOW))).toHaveLength(3);
+		expect(paths(filterRows(rows(), "modified", "", 7, NOW))).toEqual(["Drafts/idea.md", "Old/gone.md"]);
+		expect(paths(filterRows(rows(), "anonymous", "", 7, NOW))).toEqual(["Drafts/idea.md"]);
+		expect(paths(filterRows(rows(), "expiring", "", 7, NOW))).toEqual(["Drafts/idea.md", "Old/gone.md"]);
+		expect(paths(filterRows(rows(), "missing", "", 7, NOW))).toEqual(["Old/gone.md"]);
+	});
+
+	it("searches title, path and URL, ignoring case", () => {
+		expect(paths(filterRows(rows(), "all", "LIVE", 7, NOW))).toEqual(["Blog/launch.md"]);
+		expect(paths(filterRows(rows(), "all", "drafts/", 7, NOW))).toEqual(["Drafts/idea.md"]);
+		expect(paths(filterRows(rows(), "all", "u/me", 7, NOW))).toEqual(["Drafts/idea.md"]);
+		expect(paths(filterRows(rows(), "modified", "launch", 7, NOW))).toEqual([]);
+	});
+});
+
+describe("sortRows", () => {
+	const order = (sort: Parameters<typeof sortRows>[1]) => sortRows(rows(), sort).map((row) => row.path);
+
+	it("sorts by title, path, last published and expiry", () => {
+		expect(order("title")).toEqual(["Old/gone.md", "Drafts/idea.md", "Blog/launch.md"]);
+		expect(order("path")).toEqual(["Blog/launch.md", "Drafts/idea.md", "Old/gone.md"]);
+		expect(order("published")).toEqual(["Drafts/idea.md", "Blog/launch.md", "Old/gone.md"]);
+		// Soonest first; pages that never expire last
+		expect(order("expiry")).toEqual(["Old/gone.md", "Drafts/idea.md", "Blog/launch.md"]);
+	});
+});
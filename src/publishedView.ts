@@ -0,0 +1,328 @@
+import { DropdownComponent, ItemView, SearchComponent, TFile, setIcon, type WorkspaceLeaf } from "obsidian";
+import {
+	DocumentListItem,
+	PageSettingsView,
+	PageVisibility,
+	PublishedNote,
+	PublishState,
+	THEME_OPTIONS,
+	VISIBILITY_OPTIONS,
+} from "./types";
+import { getPageSettings, listDocuments } from "./api";
+import { noteBadge } from "./badges";
+import type JotBirdPlugin from "./main";
+
+export const VIEW_TYPE_PUBLISHED = "jotbird-published";
+
+/** One published note, joined with what the server lists and has set for its page. */
+export interface PublishedRow {
+	path: string;
+	note: PublishedNote;
+	/** The page title the server lists, else the note's name. */
+	title: string;
+	url: string;
+	/** ISO timestamp, or null when the page never expires (or it isn't known). */
+	expiresAt: string | null;
+	/** ISO timestamp of the last publish from this vault, or of the server's last update. */
+	publishedAt: string;
+	/** From the page's settings, when they were loaded (pages on the account only). */
+	visibility: PageVisibility | null;
+	theme: string | null;
+	state: PublishState;
+	/** The server's list was loaded and doesn't have this page: it expired or was deleted elsewhere. */
+	missing: boolean;
+}
+
+export type RowFilter = "all" | "modified" | "anonymous" | "expiring" | "missing";
+export type RowSort = "title" | "path" | "published" | "expiry";
+
+export const ROW_FILTER_OPTIONS: Record<RowFilter, string> = {
+	all: "All notes",
+	modified: "Modified since publish",
+	anonymous: "Anonymous",
+	expiring: "Expiring soon",
+	missing: "Not on the server",
+};
+
+export const ROW_SORT_OPTIONS: Record<RowSort, string> = {
+	title: "Title",
+	path: "Path",
+	published: "Last published",
+	expiry: "Expiry",
+};
+
+/**
+ * Join the local records with the server's document list (null when it
+ * wasn't loaded), matching pages by URL, or by slug for a page whose URL
+ * changed since, and with the page settings loaded per note path.
+ */
+export function buildRows(
+	notes: Record<string, PublishedNote>,
+	documents: DocumentListItem[] | null,
+	stateOf: (path: string) => PublishState,
+	pageSettings: Record<string, PageSettingsView> = {}
+): PublishedRow[] {
+	return Object.entries(notes).map(([path, note]) => {
+		const doc = documents?.find((d) => d.url === note.url) ?? documents?.find((d) => d.slug === note.slug);
+		const name = path.split("/").pop()!.replace(/\.md$/, "");
+		return {
+			path,
+			note,
+			title: doc?.title || name,
+			url: doc?.url ?? note.url,
+			expiresAt: doc ? doc.expiresAt || null : (note.expiresAt ?? null),
+			publishedAt: note.publishedAt || doc?.updatedAt || "",
+			visibility: pageSettings[path]?.visibility ?? null,
+			theme: pageSettings[path]?.theme ?? null,
+			state: stateOf(path),
+			missing: documents !== null && !doc,
+		};
+	});
+}
+
+/**
+ * The rows matching `filter` whose title, path or URL contains `query`,
+ * ignoring case.
+ */
+export function filterRows(
+	rows: PublishedRow[],
+	filter: RowFilter,
+	query: string,
+	expiryWarningDays: number,
+	now = Date.now()
+): PublishedRow[] {
+	const needle = query.trim().toLowerCase();
+	return rows.filter((row) => {
+		if (needle && ![row.title, row.path, row.url].some((s) => s.toLowerCase().includes(needle))) return false;
+		switch (filter) {
+			case "all":
+				return true;
+			case "modified":
+				return row.state === "modified";
+			case "anonymous":
+				return !!row.note.editToken;
+			case "expiring":
+				return noteBadge({ ...row.note, expiresAt: row.expiresAt }, row.state, expiryWarningDays, now).kind === "expiring";
+			case "missing":
+				return row.missing;
+		}
+	});
+}
+
+/** Title and path sort A–Z, last published newest first, expiry soonest first with pages that never expire last. */
+export function sortRows(rows: PublishedRow[], sort: RowSort): PublishedRow[] {
+	const byPath = (a: PublishedRow, b: PublishedRow) => a.path.localeCompare(b.path);
+	const compare: Record<RowSort, (a: PublishedRow, b: PublishedRow) => number> = {
+		title: (a, b) => a.title.localeCompare(b.title) || byPath(a, b),
+		path: byPath,
+		published: (a, b) => b.publishedAt.localeCompare(a.publishedAt) || byPath(a, b),
+		expiry: (a, b) =>
+			(a.expiresAt ? Date.parse(a.expiresAt) : Infinity) - (b.expiresAt ? Date.parse(b.expiresAt) : Infinity) ||
+			byPath(a, b),
+	};
+	return [...rows].sort(compare[sort]);
+}
+
+/**
+ * A sidebar list of every published note, with the server's view of each
+ * page, that stays open while you work. It redraws from the local records
+ * whenever they change (see JotBirdPlugin.refreshPublishIndicators), and asks
+ * the server again when opened or refreshed.
+ */
+export class PublishedNotesView extends ItemView {
+	private plugin: JotBirdPlugin;
+	private documents: DocumentListItem[] | null = null;
+	/** Note path -> its page's settings, for the pages on the account. */
+	private pageSettings: Record<string, PageSettingsView> = {};
+	private loadError: string | null = null;
+	private loading = false;
+	private query = "";
+	private filter: RowFilter = "all";
+	private sort: RowSort = "title";
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: JotBirdPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PUBLISHED;
+	}
+
+	getDisplayText(): string {
+		return "Published notes";
+	}
+
+	getIcon(): string {
+		return "jotbird";
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("jotbird-published-view");
+
+		const controls = contentEl.createDiv({ cls: "jotbird-published-controls" });
+		new SearchComponent(controls).setPlaceholder("Search published notes").onChange((value) => {
+			this.query = value;
+			this.refresh();
+		});
+		const options = controls.createDiv({ cls: "jotbird-published-options" });
+		new DropdownComponent(options)
+			.addOptions(ROW_FILTER_OPTIONS)
+			.setValue(this.filter)
+			.onChange((value) => {
+				this.filter = value as RowFilter;
+				this.refresh();
+			});
+		new DropdownComponent(options)
+			.addOptions(ROW_SORT_OPTIONS)
+			.setValue(this.sort)
+			.onChange((value) => {
+				this.sort = value as RowSort;
+				this.refresh();
+			});
+		const reload = options.createEl("button", { cls: "clickable-icon", attr: { "aria-label": "Refresh" } });
+		setIcon(reload, "refresh-cw");
+		reload.onclick = () => void this.reload();
+
+		this.listEl = contentEl.createDiv({ cls: "jotbird-published-list" });
+		this.refresh();
+		await this.reload();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+		this.listEl = null;
+	}
+
+	/**
+	 * Ask the server for its list of pages and for the settings of each page
+	 * on the account, then check which notes changed since their publish.
+	 * Without an API key there is nothing to ask for; the view shows the local
+	 * records alone.
+	 */
+	async reload(): Promise<void> {
+		if (this.loading) return;
+		this.loading = true;
+		this.refresh();
+		try {
+			if (this.plugin.settings.apiKey) {
+				try {
+					this.documents = (await listDocuments(this.plugin.settings.apiKey)).documents;
+					this.loadError = null;
+				} catch (e) {
+					this.loadError = e instanceof Error ? e.message : "Unknown error";
+				}
+				this.pageSettings = await this.loadPageSettings(this.plugin.settings.apiKey);
+			}
+			await this.plugin.refreshPublishStates();
+		} finally {
+			this.loading = false;
+			this.refresh();
+		}
+	}
+
+	/**
+	 * The settings of every page on the account (anonymous pages have none to
+	 * read), by note path. A page whose settings can't be read is left out, so
+	 * its row just goes without them.
+	 */
+	private async loadPageSettings(apiKey: string): Promise<Record<string, PageSettingsView>> {
+		const loaded: Record<string, PageSettingsView> = {};
+		const owned = Object.entries(this.plugin.publishedNotes).filter(([, note]) => !note.editToken);
+		await Promise.all(
+			owned.map(async ([path, note]) => {
+				try {
+					loaded[path] = await getPageSettings(apiKey, { documentId: note.documentId, slug: note.slug });
+				} catch {
+					// Shown without visibility and theme
+				}
+			})
+		);
+		return loaded;
+	}
+
+	/** Redraw the list from the local records and the last server lists. */
+	refresh(): void {
+		const list = this.listEl;
+		if (!list) return;
+		list.empty();
+
+		if (this.loading) list.createDiv({ text: "Checking published pages…", cls: "jotbird-published-note" });
+		if (this.loadError) {
+			list.createDiv({ text: `Couldn't load pages from JotBird: ${this.loadError}`, cls: "jotbird-published-note" });
+		}
+
+		const all = buildRows(
+			this.plugin.publishedNotes,
+			this.documents,
+			(path) => {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				return file instanceof TFile ? this.plugin.getPublishState(file) : "modified";
+			},
+			this.pageSettings
+		);
+		const rows = sortRows(
+			filterRows(all, this.filter, this.query, this.plugin.settings.expiryWarningDays),
+			this.sort
+		);
+		if (rows.length === 0) {
+			list.createDiv({
+				text: all.length === 0 ? "No published notes yet." : "No published notes match.",
+				cls: "jotbird-doc-list-empty",
+			});
+			return;
+		}
+		for (const row of rows) this.renderRow(list, row);
+	}
+
+	private renderRow(list: HTMLElement, row: PublishedRow): void {
+		const file = this.app.vault.getAbstractFileByPath(row.path);
+		const note = file instanceof TFile ? file : null;
+		const item = list.createDiv({ cls: "jotbird-published-row" });
+
+		const head = item.createDiv({ cls: "jotbird-published-head" });
+		const badge = noteBadge({ ...row.note, expiresAt: row.expiresAt }, row.state, this.plugin.settings.expiryWarningDays);
+		head.createSpan({
+			cls: ["jotbird-badge", `jotbird-badge-${badge.kind}`],
+			attr: { "aria-label": badge.details.join(", ") },
+		});
+		head.createSpan({ text: row.title, cls: "jotbird-published-title" });
+
+		item.createDiv({ text: row.path, cls: "jotbird-published-path" });
+		const link = item.createEl("a", { text: row.url, href: row.url, cls: "jotbird-doc-url" });
+		link.setAttr("target", "_blank");
+		// See PageSettingsModal: _blank without rel=noopener leaks window.opener.
+		link.setAttr("rel", "noopener noreferrer");
+
+		const details = [
+			row.missing ? "Not on the server" : null,
+			row.visibility ? VISIBILITY_OPTIONS[row.visibility] : null,
+			row.theme ? `${THEME_OPTIONS[row.theme] ?? row.theme} theme` : null,
+			row.expiresAt ? `Expires ${row.expiresAt.slice(0, 10)}` : "Never expires",
+			row.publishedAt ? `Published ${new Date(row.publishedAt).toLocaleDateString()}` : null,
+			row.state === "modified" ? "Modified since publish" : null,
+		].filter((d): d is string => d !== null);
+		item.createDiv({ text: details.join(" · "), cls: "jotbird-published-details" });
+
+		const actions = item.createDiv({ cls: "jotbird-published-actions" });
+		const action = (icon: string, label: string, run: () => unknown) => {
+			const button = actions.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+			setIcon(button, icon);
+			button.onclick = () => void run();
+		};
+		if (note) action("file-text", "Open note", () => this.app.workspace.openLinkText(note.path, ""));
+		action("external-link", "Open page", () => window.open(row.url));
+		if (note && !this.plugin.isExcluded(note.path)) {
+			action("upload-cloud", row.state === "modified" ? "Republish changes" : "Republish", () =>
+				this.plugin.publishFile(note)
+			);
+		}
+		if (note && this.plugin.canManagePageSettings(note)) {
+			action("settings", "Page settings", () => this.plugin.openPageSettings(note));
+		}
+		if (note) action("trash-2", "Unpublish", () => this.plugin.unpublishNote(note));
+	}
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { applyReplacementRules, compileRule, ruleApplies } from "./rules";
+import type { ReplacementRule } from "./types";
+
+function rule(over: Partial<ReplacementRule>): ReplacementRule {
+	return { find: "", replace: "", regex: false, enabled: true, folder: "", ...over };
+}
+
+describe("compileRule", () => {
+	it("matches literal text literally", () => {
+		const pattern = compileRule(rule({ find: "a.b (c)" }));
+		expect(pattern).toBeInstanceOf(RegExp);
+		expect("a.b (c) axb (c)".replace(pattern as RegExp, "X")).toBe("X axb (c)");
+	});
+
+	it("reports an empty find or an invalid regular expression", () => {
+		expect(compileRule(rule({ find: "" }))).toEqual({ error: "Nothing to find" });
+		expect(compileRule(rule({ find: "[", regex: true }))).toHaveProperty("error");
+	});
+});
+
+describe("ruleApplies", () => {
+	it("limits a rule to its folder and subfolders", () => {
+		const scoped = rule({ folder: "/Work/" });
+		expect(ruleApplies(scoped, "Work/note.md")).toBe(true);
+		expect(ruleApplies(scoped, "Work/Team/note.md")).toBe(true);
+		expect(ruleApplies(scoped, "Workshop/note.md")).toBe(false);
+		expect(ruleApplies(rule({}), "anything.md")).toBe(true);
+	});
+});
+
+describe("applyReplacementRules", () => {
+	it("runs the enabled rules in order", () => {
+		const rules = [
+			rule({ find: "https://jira\\.corp/browse/(\\w+-\\d+)", replace: "ticket $1", regex: true }),
+			rule({ find: "ticket", replace: "issue" }),
+			rule({ find: "issue", replace: "never", enabled: false }),
+		];
+		expect(applyReplacementRules("See https://jira.corp/browse/OPS-12.", rules)).toBe("See issue OPS-12.");
+	});
+
+	it("treats a literal rule's replacement literally", () => {
+		expect(applyReplacementRules("cost", [rule({ find: "cost", replace: "$& $1" })])).toBe("$& $1");
+	});
+
+	it("matches ^ and $ per line in regex rules", () => {
+		const rules = [rule({ find: "^internal:.*$", replace: "", regex: true })];
+		expect(applyReplacementRules("keep\ninternal: x\nkeep", rules)).toBe("keep\n\nkeep");
+	});
+
+	it("skips rules scoped to other folders, and broken rules", () => {
+		const rules = [rule({ find: "a", replace: "b", folder: "Work" }), rule({ find: "(", regex: true })];
+		expect(applyReplacementRules("a", rules, "Personal/note.md")).toBe("a");
+		expect(applyReplacementRules("a", rules, "Work/note.md")).toBe("b");
+		expect(applyReplacementRules("a", rules)).toBe("b");
+	});
+});
@@ -0,0 +1,39 @@
+import type { ReplacementRule } from "./types";
+
+/**
+ * The pattern a rule matches, or the reason it can't be used: an empty find
+ * or an invalid regular expression. Regex rules match globally and per line
+ * (^ and $ match at line breaks).
+ */
+export function compileRule(rule: ReplacementRule): RegExp | { error: string } {
+	if (rule.find === "") return { error: "Nothing to find" };
+	if (!rule.regex) return new RegExp(rule.find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g");
+	try {
+		return new RegExp(rule.find, "gm");
+	} catch (e) {
+		return { error: e instanceof Error ? e.message : "Invalid regular expression" };
+	}
+}
+
+/** Whether a rule covers the note at `path`: anywhere, or inside its folder. */
+export function ruleApplies(rule: ReplacementRule, path: string): boolean {
+	const folder = rule.folder.trim().replace(/^\/+|\/+$/g, "");
+	return folder === "" || path.startsWith(folder + "/");
+}
+
+/**
+ * Run the enabled rules over `md`, in order, each on the previous one's
+ * output. Rules scoped to another folder are skipped, as are rules that don't
+ * compile — the settings tab shows why. Without a `path`, folder scopes are
+ * ignored (the settings tab's test box).
+ */
+export function applyReplacementRules(md: string, rules: ReplacementRule[], path?: string): string {
+	for (const rule of rules) {
+		if (!rule.enabled || (path !== undefined && !ruleApplies(rule, path))) continue;
+		const pattern = compileRule(rule);
+		if (!(pattern instanceof RegExp)) continue;
+		// A literal rule's replacement is literal too: no $-patterns
+		md = rule.regex ? md.replace(pattern, rule.replace) : md.replace(pattern, () => rule.replace);
+	}
+	return md;
+}
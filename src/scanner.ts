@@ -0,0 +1,104 @@
+/**
+ * A last look at what's about to go public: credentials and personal details
+ * that commonly end up in notes by accident. It runs on the processed markdown
+ * — exactly what would be published — and only reports; the publish flow asks
+ * the user what to do.
+ *
+ * The patterns favour catching a real key over staying quiet, so an allowlist
+ * (see parseSecretAllowlist) lets users wave through what they publish on
+ * purpose, such as a support address.
+ */
+
+export interface SecretFinding {
+	/** What was found, display-ready, e.g. "AWS access key". */
+	kind: string;
+	/** The matched text. */
+	match: string;
+	/** 1-based line number in the scanned text. */
+	line: number;
+	/** The line, trimmed, and shortened around the match when it's long. */
+	context: string;
+}
+
+const SECRET_PATTERNS: { kind: string; pattern: RegExp }[] = [
+	{ kind: "Private key", pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+	{ kind: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{
+		kind: "AWS secret key",
+		pattern: /\baws_?secret(?:_access)?_?key\b["']?\s*[:=]\s*["']?[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi,
+	},
+	{ kind: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+	{ kind: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ kind: "Stripe key", pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+	{ kind: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+	{ kind: "OpenAI or Anthropic key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+	{ kind: "JotBird API key", pattern: /\bjb_[0-9a-f]{64}\b/g },
+	{
+		kind: "API key or password",
+		pattern: /\b(?:api[_-]?key|secret|token|passw(?:or)?d)\b["']?\s*[:=]\s*["']?[A-Za-z0-9_\-/+=.]{12,}/gi,
+	},
+	{ kind: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+	{ kind: "Email address", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+	{
+		// +1 555-123-4567, (555) 123 4567, +44 20 7946 0958 — but not dates or version numbers
+		kind: "Phone number",
+		pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[ .-]\d{3,4}[ .-]\d{3,4}\b/g,
+	},
+];
+
+/** Longest line context shown per finding. */
+const MAX_CONTEXT_LENGTH = 120;
+
+/**
+ * Parse the allowlist setting: one entry per line (commas also separate), `*`
+ * matching anything, compared case-insensitively against the whole finding.
+ * "*@example.com" allows every example.com address.
+ */
+export function parseSecretAllowlist(value: string): RegExp[] {
+	return value
+		.split(/[\n,]/)
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0)
+		.map(
+			(entry) =>
+				new RegExp(
+					"^" + entry.split("*").map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$",
+					"i"
+				)
+		);
+}
+
+/**
+ * Every likely secret or personal detail in `text`, in order, skipping
+ * allowlisted matches. A match found by a more specific pattern (a Stripe key
+ * written as `api_key = sk_live_…`) is reported once.
+ */
+export function scanForSecrets(text: string, allowlist: RegExp[] = []): SecretFinding[] {
+	const found: (SecretFinding & { start: number; end: number })[] = [];
+	for (const { kind, pattern } of SECRET_PATTERNS) {
+		for (const m of text.matchAll(pattern)) {
+			const start = m.index;
+			const end = start + m[0].length;
+			if (found.some((f) => start < f.end && end > f.start)) continue;
+			if (allowlist.some((allowed) => allowed.test(m[0]))) continue;
+			found.push({ kind, match: m[0], start, end, ...lineAt(text, start) });
+		}
+	}
+	return found
+		.sort((a, b) => a.start - b.start)
+		.map(({ kind, match, line, context }) => ({ kind, match, line, context }));
+}
+
+/** The line a match sits on, shortened around the match when it's long. */
+function lineAt(text: string, start: number): { line: number; context: string } {
+	const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+	const lineEnd = text.indexOf("\n", start);
+	const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+	let context = line.trim();
+	if (context.length > MAX_CONTEXT_LENGTH) {
+		const from = Math.max(0, Math.min(start - lineStart - 40, line.length - MAX_CONTEXT_LENGTH));
+		const to = from + MAX_CONTEXT_LENGTH;
+		context = (from > 0 ? "…" : "") + line.slice(from, to).trim() + (to < line.length ? "…" : "");
+	}
+	return { line: text.slice(0, lineStart).split("\n").length, context };
+}
@@ -9,6 +9,7 @@ import type JotBirdPlugin from "./main";
 const mockNotice = vi.mocked(Notice);
 
 function makePlugin(over: Record<string, unknown> = {}): JotBirdPlugin {
+	const { settings, ...rest } = over;
 	const plugin = {
 		settings: {
 			apiKey: "jb_key",
@@ -18,6 +19,8 @@ function makePlugin(over: Record<string, unknown> = {}): JotBirdPlugin {
 			titleMode: "auto",
 			defaultTheme: "",
 			defaultHideBranding: "",
+			replacementRules: [],
+			...(settings as object),
 		},
 		isPro: false,
 		refreshProStatusIfStale: vi.fn().mockResolvedValue(undefined),
@@ -27,7 +30,7 @@ function makePlugin(over: Record<string, unknown> = {}): JotBirdPlugin {
 		checkProStatus: vi.fn().mockResolvedValue(true),
 		beginAccountConnect: vi.fn().mockReturnValue("nonce"),
 		saveSettings: vi.fn().mockResolvedValue(undefined),
-		...over,
+		...rest,
 	};
 	return plugin as unknown as JotBirdPlugin;
 }
@@ -400,3 +403,95 @@ describe("settings tab — no duplicate render on connect", () => {
 		}
 	});
 });
+
+describe("settings tab — image optimization", () => {
+	it("shows the optimization details only while it's on", async () => {
+		const plugin = makePlugin();
+		tabFor(plugin);
+		expect(renderedSettings.some((s) => s.name === "Image quality")).toBe(false);
+
+		settingNamed("Optimize images").toggles[0].toggle(true);
+		await vi.waitFor(() => {
+			expect(renderedSettings.some((s) => s.name === "Image quality")).toBe(true);
+		});
+		expect(plugin.settings.optimizeImages).toBe(true);
+	});
+
+	it("strips image metadata unless turned off", async () => {
+		const plugin = makePlugin();
+		plugin.settings.stripImageMetadata = true;
+		tabFor(plugin);
+
+		const toggle = settingNamed("Remove image metadata").toggles[0];
+		expect(toggle.value).toBe(true);
+		toggle.toggle(false);
+		expect(plugin.settings.stripImageMetadata).toBe(false);
+	});
+
+	it("ignores a quality or dimension that isn't a usable number", () => {
+		const plugin = makePlugin();
+		plugin.settings.optimizeImages = true;
+		plugin.settings.imageQuality = 80;
+		plugin.settings.imageMaxDimension = 2048;
+		tabFor(plugin);
+
+		settingNamed("Image quality").texts[0].type("150");
+		settingNamed("Maximum dimension").texts[0].type("0");
+		expect(plugin.settings.imageQuality).toBe(80);
+		expect(plugin.settings.imageMaxDimension).toBe(2048);
+
+		settingNamed("Image quality").texts[0].type("60");
+		expect(plugin.settings.imageQuality).toBe(60);
+	});
+});
+
+describe("settings tab — find and replace", () => {
+	it("adds, edits and deletes rules", async () => {
+		const plugin = makePlugin();
+		tabFor(plugin);
+
+		const add = renderedSettings.find((s) => s.buttons.some((b) => b.text === "Add rule"))!;
+		add.buttons[0].click();
+		await vi.waitFor(() => expect(renderedSettings.some((s) => s.name === "Rule 1")).toBe(true));
+
+		const rule = settingNamed("Rule 1");
+		rule.texts[0].type("jira.internal");
+		rule.texts[1].type("example.com");
+		rule.texts[2].type("Work");
+		expect(plugin.settings.replacementRules).toEqual([
+			{ find: "jira.internal", replace: "example.com", regex: false, enabled: true, folder: "Work" },
+		]);
+
+		rule.extraButtons[0].click();
+		await vi.waitFor(() => expect(renderedSettings.some((s) => s.name === "Rule 1")).toBe(false));
+		expect(plugin.settings.replacementRules).toEqual([]);
+	});
+
+	it("shows what the rules do to the sample text", () => {
+		const plugin = makePlugin();
+		plugin.settings.replacementRules = [
+			{ find: "@(\\w+)", replace: "@someone", regex: true, enabled: true, folder: "Work" },
+			{ find: "secret", replace: "", regex: false, enabled: false, folder: "" },
+		];
+		tabFor(plugin);
+
+		settingNamed("Test rules").textAreas[0].type("Ask @alice about the secret");
+		expect(settingNamed("Result").desc).toBe("Ask @someone about the secret");
+
+		settingNamed("Rule 2").toggles[0].toggle(true);
+		expect(settingNamed("Result").desc).toBe("Ask @someone about the ");
+	});
+
+	it("explains a rule that can't be used", () => {
+		const plugin = makePlugin();
+		plugin.settings.replacementRules = [{ find: "", replace: "", regex: true, enabled: true, folder: "" }];
+		tabFor(plugin);
+
+		const rule = settingNamed("Rule 1");
+		expect(rule.desc).toBe("Nothing to find");
+		rule.texts[0].type("(unclosed");
+		expect(rule.desc).toMatch(/unterminated group/i);
+		rule.texts[0].type("(closed)");
+		expect(rule.desc).toBe("");
+	});
+});
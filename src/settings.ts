@@ -1,8 +1,16 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type JotBirdPlugin from "./main";
 import type { JotBirdSettings } from "./types";
-import { SITE_URL, THEME_OPTIONS } from "./types";
+import {
+	DEFAULT_SETTINGS,
+	IMAGE_FORMAT_OPTIONS,
+	REPLACEMENT_MATCH_OPTIONS,
+	SITE_URL,
+	THEME_OPTIONS,
+	UNPUBLISHED_LINK_OPTIONS,
+} from "./types";
 import { getPortalUrl } from "./api";
+import { applyReplacementRules, compileRule } from "./rules";
 
 /**
  * How long to wait after the user stops typing in the API-key field before
@@ -44,6 +52,8 @@ export class JotBirdSettingTab extends PluginSettingTab {
 	// The async check compares against it after its await, so a check that is
 	// already in flight when the pane closes can't render into a dead view.
 	private keyCheckGeneration = 0;
+	// What's typed into the find-and-replace test box; kept across re-renders.
+	private ruleSample = "";
 
 	constructor(app: App, plugin: JotBirdPlugin) {
 		super(app, plugin);
@@ -283,6 +293,62 @@ export class JotBirdSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Links to unpublished notes")
+			.setDesc(
+				"What a published page shows for a link to a note that isn't published. Block publishing lists the links and publishes nothing. Add a jotbird_unpublished_links property to a note to override this for that note."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(UNPUBLISHED_LINK_OPTIONS)
+					.setValue(this.plugin.settings.unpublishedLinks)
+					.onChange(async (value) => {
+						this.plugin.settings.unpublishedLinks = value as JotBirdSettings["unpublishedLinks"];
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Excluded notes")
+			.setDesc(
+				"Folders and file patterns that can never be published, one per line. End a folder with / to exclude everything in it, and use * as a wildcard. Embeds and attachments from them are left off published pages."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Private/\n*.secret.md")
+					.setValue(this.plugin.settings.excludedPaths)
+					.onChange(async (value) => {
+						this.plugin.settings.excludedPaths = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Check for secrets")
+			.setDesc(
+				"Before publishing, look for API keys, passwords, private keys, email addresses and phone numbers, and ask before making them public."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.scanForSecrets)
+					.onChange(async (value) => {
+						this.plugin.settings.scanForSecrets = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Allowed matches")
+			.setDesc(
+				"Things the check should let through, one per line, such as a support address. Use * to match anything, as in *@example.com."
+			)
+			.addTextArea((text) =>
+				text.setValue(this.plugin.settings.secretAllowlist).onChange(async (value) => {
+					this.plugin.settings.secretAllowlist = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		new Setting(containerEl)
 			.setName("Page title")
 			.setDesc(
@@ -300,6 +366,48 @@ export class JotBirdSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Cancel publish on attachment problems")
+			.setDesc(
+				"Don't publish a note when any of its images or attachments can't be found or uploaded. When off, the note publishes and the missing files are listed."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.abortOnImageIssues)
+					.onChange(async (value) => {
+						this.plugin.settings.abortOnImageIssues = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Attachment types")
+			.setDesc(
+				"File extensions, separated by commas, uploaded along with a note besides images. Uploaded files are public, so none are uploaded until listed here. Embedded video and audio play on the page; other files become download links."
+			)
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.attachmentTypes)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentTypes = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Attachment size limit")
+			.setDesc("Largest attachment to upload, in megabytes. Bigger files are listed instead of published.")
+			.addText((text) =>
+				text
+					.setValue(String(this.plugin.settings.maxAttachmentSizeMB))
+					.onChange(async (value) => {
+						const size = Number(value);
+						if (!Number.isFinite(size) || size <= 0) return;
+						this.plugin.settings.maxAttachmentSizeMB = size;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Auto-copy link")
 			.setDesc("Automatically copy the published URL to clipboard after publishing.")
@@ -326,6 +434,252 @@ export class JotBirdSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Publish property")
+			.setDesc(
+				"Notes with this checkbox property turned on are published by the sync published notes command, which also offers to unpublish them once it's turned off. Leave empty to turn sync off."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.publishProperty)
+					.setValue(this.plugin.settings.publishProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.publishProperty = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-update published pages")
+			.setDesc(
+				"Republish a published note in the background shortly after you stop editing it. A note's jotbird_auto_update property turns this on or off for that note."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoUpdate)
+					.onChange(async (value) => {
+						this.plugin.settings.autoUpdate = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-update folders")
+			.setDesc(
+				"Published notes in these folders auto-update even when the setting above is off. One folder or pattern per line, written like excluded notes."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Blog/")
+					.setValue(this.plugin.settings.autoUpdateFolders)
+					.onChange(async (value) => {
+						this.plugin.settings.autoUpdateFolders = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("File explorer badges")
+			.setDesc(
+				"Mark published notes in the file explorer, showing which were modified since publish, are anonymous or expire soon, and count published notes per folder."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.explorerBadges)
+					.onChange(async (value) => {
+						this.plugin.settings.explorerBadges = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshPublishIndicators();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Expiry warning")
+			.setDesc("Flag pages that expire within this many days, in the status bar and the file explorer.")
+			.addText((text) =>
+				text
+					.setValue(String(this.plugin.settings.expiryWarningDays))
+					.onChange(async (value) => {
+						const days = Number(value);
+						if (!Number.isFinite(days) || days < 0) return;
+						this.plugin.settings.expiryWarningDays = days;
+						await this.plugin.saveSettings();
+						this.plugin.refreshPublishIndicators();
+					})
+			);
+
+		// --- Images ---
+		// The optimization details only render while optimization is on;
+		// toggling it re-renders the pane to show or hide them.
+		new Setting(containerEl).setName("Images").setHeading();
+
+		new Setting(containerEl)
+			.setName("Remove image metadata")
+			.setDesc(
+				"Remove location, camera details and other metadata from JPEG, PNG and WebP images before uploading. Photos are turned upright first, so they don't display rotated."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.stripImageMetadata)
+					.onChange(async (value) => {
+						this.plugin.settings.stripImageMetadata = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Optimize images")
+			.setDesc(
+				"Downsize large images and re-encode them before uploading. SVG and GIF images are never changed, and an image is only replaced when the result is smaller."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.optimizeImages)
+					.onChange(async (value) => {
+						this.plugin.settings.optimizeImages = value;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.optimizeImages) {
+			new Setting(containerEl)
+				.setName("Maximum dimension")
+				.setDesc("Longest side, in pixels, of an uploaded image. Smaller images are never enlarged.")
+				.addText((text) =>
+					text
+						.setValue(String(this.plugin.settings.imageMaxDimension))
+						.onChange(async (value) => {
+							const pixels = Number(value);
+							if (!Number.isInteger(pixels) || pixels <= 0) return;
+							this.plugin.settings.imageMaxDimension = pixels;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Image format")
+				.setDesc("What optimized images are saved as. WebP is usually smallest.")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(IMAGE_FORMAT_OPTIONS)
+						.setValue(this.plugin.settings.imageFormat)
+						.onChange(async (value) => {
+							this.plugin.settings.imageFormat = value as JotBirdSettings["imageFormat"];
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Image quality")
+				.setDesc("WebP and JPEG quality, from 1 to 100. Lower is smaller.")
+				.addText((text) =>
+					text
+						.setValue(String(this.plugin.settings.imageQuality))
+						.onChange(async (value) => {
+							const quality = Number(value);
+							if (!Number.isInteger(quality) || quality < 1 || quality > 100) return;
+							this.plugin.settings.imageQuality = quality;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		// --- Find and replace ---
+		// Rule edits save as they're typed and refresh the test box's result;
+		// only adding or deleting a rule re-renders the pane.
+		new Setting(containerEl).setName("Find and replace").setHeading();
+
+		new Setting(containerEl)
+			.setDesc(
+				"Rewrite text in published notes, such as internal links, handles or hostnames. Rules run in order, after all other processing. Give a rule a folder to apply it only to notes inside that folder."
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Add rule").onClick(async () => {
+					this.plugin.settings.replacementRules = [
+						...this.plugin.settings.replacementRules,
+						{ find: "", replace: "", regex: false, enabled: true, folder: "" },
+					];
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		let result: Setting | null = null;
+		const showResult = () => {
+			result?.setDesc(applyReplacementRules(this.ruleSample, this.plugin.settings.replacementRules));
+		};
+
+		this.plugin.settings.replacementRules.forEach((rule, index) => {
+			const setting = new Setting(containerEl).setName(`Rule ${index + 1}`);
+			const showError = () => {
+				const pattern = compileRule(rule);
+				setting.setDesc(pattern instanceof RegExp ? "" : pattern.error);
+			};
+			const update = async (change: () => void) => {
+				change();
+				showError();
+				showResult();
+				await this.plugin.saveSettings();
+			};
+			showError();
+			setting
+				.addText((text) =>
+					text
+						.setPlaceholder("Find")
+						.setValue(rule.find)
+						.onChange((value) => update(() => (rule.find = value)))
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Replace with")
+						.setValue(rule.replace)
+						.onChange((value) => update(() => (rule.replace = value)))
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(REPLACEMENT_MATCH_OPTIONS)
+						.setValue(rule.regex ? "regex" : "text")
+						.onChange((value) => update(() => (rule.regex = value === "regex")))
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("All folders")
+						.setValue(rule.folder)
+						.onChange((value) => update(() => (rule.folder = value)))
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(rule.enabled)
+						.onChange((value) => update(() => (rule.enabled = value)))
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip("Delete rule")
+						.onClick(async () => {
+							this.plugin.settings.replacementRules = this.plugin.settings.replacementRules.filter(
+								(r) => r !== rule
+							);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName("Test rules")
+			.setDesc("Type sample text to see what the enabled rules turn it into. Folder limits are ignored here.")
+			.addTextArea((text) =>
+				text.setValue(this.ruleSample).onChange((value) => {
+					this.ruleSample = value;
+					showResult();
+				})
+			);
+		result = new Setting(containerEl).setName("Result");
+		result.descEl.addClass("jotbird-rule-result");
+		showResult();
+
 		// --- Page settings defaults ---
 		// Both defaults ship as "Leave as-is (don't manage)": nothing is sent
 		// with a publish, so the server preserves whatever each page already has
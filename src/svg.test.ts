@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { sanitizeSvg } from "./svg";
+
+describe("sanitizeSvg", () => {
+	it("passes a clean SVG through untouched", () => {
+		const svg =
+			'<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+			'<!-- diagram --><defs><path id="p" d="M0 0"/></defs><use xlink:href="#p"/>' +
+			'<a href="#section"><text style="fill: red">1 &lt; 2</text></a></svg>';
+		expect(sanitizeSvg(svg)).toEqual({ svg, removed: [] });
+	});
+
+	it("removes script elements with their content, including nested markup", () => {
+		const { svg, removed } = sanitizeSvg(
+			'<svg><script type="text/javascript"><![CDATA[alert("<svg>")]]></script><circle r="1"/><SCRIPT>x()</SCRIPT></svg>'
+		);
+		expect(svg).toBe('<svg><circle r="1"/></svg>');
+		expect(removed).toEqual(["<script> element"]);
+	});
+
+	it("removes foreign embeds and namespaced scripts", () => {
+		const { svg, removed } = sanitizeSvg(
+			'<svg><foreignObject><html:iframe src="https://evil.example"></html:iframe><p>Label</p></foreignObject><svg:script>x()</svg:script></svg>'
+		);
+		expect(svg).toBe("<svg><foreignObject><p>Label</p></foreignObject></svg>");
+		expect(removed).toEqual(["<iframe> element", "<script> element"]);
+	});
+
+	it("removes on* event handlers, keeping the other attributes", () => {
+		const { svg, removed } = sanitizeSvg('<svg onload="alert(1)"><rect width="5" ONCLICK=\'steal()\' fill="red"/></svg>');
+		expect(svg).toBe('<svg><rect width="5" fill="red"/></svg>');
+		expect(removed).toEqual(["onload event handler", "onclick event handler"]);
+	});
+
+	it("removes javascript: URLs however they're disguised", () => {
+		const { svg, removed } = sanitizeSvg(
+			'<svg><a href="javascript:alert(1)">a</a><a xlink:href=" JaVa&#x09;Script&colon;x()">b</a>' +
+			'<set attributeName="href" to="javascript:alert(1)"/></svg>'
+		);
+		expect(svg).toBe('<svg><a>a</a><a>b</a><set attributeName="href"/></svg>');
+		expect(removed).toEqual(["javascript: URL"]);
+	});
+
+	it("removes external references but keeps embedded raster images", () => {
+		const { svg, removed } = sanitizeSvg(
+			'<svg><image href="https://tracker.example/pixel.png"/><use xlink:href="//cdn.example/sprite.svg#i"/>' +
+			'<image href="data:image/png;base64,AAAA"/><image href="data:text/html;base64,PHNjcmlwdD4="/></svg>'
+		);
+		expect(svg).toBe('<svg><image/><use/><image href="data:image/png;base64,AAAA"/><image/></svg>');
+		expect(removed).toEqual(["external reference"]);
+	});
+
+	it("removes stylesheet imports and external url() references from CSS", () => {
+		const { svg, removed } = sanitizeSvg(
+			'<svg><style>@import url("https://evil.example/x.css"); .a { fill: url(#grad); background: url(https://evil.example/p.png) }</style>' +
+			'<rect style="background: url(\'javascript:x()\')"/><circle style="fill: url(https://evil.example/f#g); stroke: red"/></svg>'
+		);
+		expect(svg).toBe(
+			'<svg><style> .a { fill: url(#grad); background: none }</style><rect/><circle style="fill: none; stroke: red"/></svg>'
+		);
+		expect(removed).toEqual(["stylesheet import", "external reference", "javascript: URL"]);
+	});
+
+	it("removes DOCTYPE entity declarations and stylesheet processing instructions", () => {
+		const { svg, removed } = sanitizeSvg(
+			'<?xml version="1.0"?><?xml-stylesheet href="https://evil.example/x.css"?>' +
+			'<!DOCTYPE svg [<!ENTITY x "<script>alert(1)</script>">]><svg>&x;</svg>'
+		);
+		expect(svg).toBe('<?xml version="1.0"?><svg>&x;</svg>');
+		expect(removed).toEqual(["processing instruction", "DOCTYPE declaration"]);
+	});
+
+	it("escapes markup it can't parse instead of passing it through", () => {
+		const { svg } = sanitizeSvg('<svg><scr<script>ipt>alert(1)</script></svg>');
+		expect(svg).not.toContain("<script");
+		expect(svg).not.toContain("<scr<");
+	});
+});
@@ -0,0 +1,251 @@
+/**
+ * SVG sanitizer for uploads. An SVG opened directly from its uploaded URL is a
+ * full document that can run scripts, so everything that can execute code or
+ * reach outside the file is removed: script-capable elements, on* event
+ * handlers, javascript: URLs, and references to external resources.
+ *
+ * This is a small tag-level tokenizer rather than a DOM pass so it behaves the
+ * same wherever it runs; markup it can't parse is escaped, never passed
+ * through.
+ */
+
+export interface SanitizedSvg {
+	svg: string;
+	/** What was removed, one display-ready entry per kind, e.g. "<script> element". */
+	removed: string[];
+}
+
+/** Elements dropped along with everything inside them. */
+const DANGEROUS_ELEMENTS = [
+	"script",
+	"iframe",
+	"object",
+	"embed",
+	"frame",
+	"frameset",
+	"applet",
+	"base",
+	"meta",
+	"link",
+	"handler",
+	"listener",
+];
+
+/** Attributes whose value is fetched or navigated to. */
+const URL_ATTRIBUTES = ["href", "xlink:href", "src", "action", "formaction", "xml:base"];
+
+const TAG_REGEX = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE_REGEX = /([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+export function sanitizeSvg(source: string): SanitizedSvg {
+	const removed = new Set<string>();
+	let out = "";
+	let pos = 0;
+	// The dangerous element being skipped, and how deeply it nests in itself
+	let skipping: { name: string; depth: number } | null = null;
+
+	while (pos < source.length) {
+		const lt = source.indexOf("<", pos);
+		if (lt === -1) {
+			if (!skipping) out += source.slice(pos);
+			break;
+		}
+		if (!skipping) out += source.slice(pos, lt);
+
+		if (source.startsWith("<!--", lt)) {
+			const end = endOf(source, "-->", lt + 4);
+			if (!skipping) out += source.slice(lt, end);
+			pos = end;
+			continue;
+		}
+		if (source.startsWith("<![CDATA[", lt)) {
+			const end = endOf(source, "]]>", lt + 9);
+			if (!skipping) out += source.slice(lt, end);
+			pos = end;
+			continue;
+		}
+		if (source.startsWith("<!", lt)) {
+			// A DOCTYPE's internal subset can declare entities that expand into
+			// markup after sanitizing, so it goes entirely.
+			pos = doctypeEnd(source, lt);
+			removed.add("DOCTYPE declaration");
+			continue;
+		}
+		if (source.startsWith("<?", lt)) {
+			const end = endOf(source, "?>", lt + 2);
+			const instruction = source.slice(lt, end);
+			if (/^<\?xml\s/i.test(instruction)) {
+				if (!skipping) out += instruction;
+			} else {
+				// e.g. <?xml-stylesheet href="https://…"?>
+				removed.add("processing instruction");
+			}
+			pos = end;
+			continue;
+		}
+
+		TAG_REGEX.lastIndex = lt;
+		const tag = TAG_REGEX.exec(source);
+		if (!tag) {
+			if (!skipping) out += "&lt;";
+			pos = lt + 1;
+			continue;
+		}
+		pos = TAG_REGEX.lastIndex;
+		const [raw, closing, name, attributes, selfClosing] = tag;
+		const lower = name.toLowerCase();
+		const localName = lower.includes(":") ? lower.slice(lower.indexOf(":") + 1) : lower;
+
+		if (skipping) {
+			if (localName === skipping.name && !selfClosing) {
+				skipping.depth += closing ? -1 : 1;
+				if (skipping.depth === 0) skipping = null;
+			}
+			continue;
+		}
+
+		if (DANGEROUS_ELEMENTS.includes(localName)) {
+			removed.add(`<${localName}> element`);
+			if (!closing && !selfClosing) skipping = { name: localName, depth: 1 };
+			continue;
+		}
+
+		if (closing) {
+			out += raw;
+			continue;
+		}
+		out += sanitizeTag(raw, name, attributes, selfClosing, removed);
+
+		if (localName === "style" && !selfClosing) {
+			const close = source.toLowerCase().indexOf("</" + lower, pos);
+			const end = close === -1 ? source.length : close;
+			out += sanitizeCss(source.slice(pos, end), removed);
+			pos = end;
+		}
+	}
+
+	return { svg: out, removed: [...removed] };
+}
+
+function sanitizeTag(
+	raw: string,
+	name: string,
+	attributes: string,
+	selfClosing: string,
+	removed: Set<string>
+): string {
+	const kept: string[] = [];
+	let changed = false;
+	for (const [attribute, attrName, quotedValue] of attributes.matchAll(ATTRIBUTE_REGEX)) {
+		const lower = attrName.toLowerCase();
+		const value = quotedValue === undefined ? "" : unquote(quotedValue);
+		const normalized = normalizeUrl(value);
+
+		if (lower.startsWith("on")) {
+			removed.add(`${lower} event handler`);
+			changed = true;
+		} else if (/(?:java|vb)script:/.test(normalized)) {
+			removed.add("javascript: URL");
+			changed = true;
+		} else if (URL_ATTRIBUTES.includes(lower) && isExternal(normalized)) {
+			removed.add("external reference");
+			changed = true;
+		} else if (lower === "style") {
+			const css = sanitizeCss(value, removed);
+			changed ||= css !== value;
+			kept.push(`style="${css.replace(/"/g, "&quot;")}"`);
+		} else {
+			kept.push(attribute);
+		}
+	}
+	if (!changed) return raw;
+	return `<${name}${kept.map((a) => " " + a).join("")}${selfClosing ? "/" : ""}>`;
+}
+
+/** Drop @import rules and url() references that leave the file. */
+function sanitizeCss(css: string, removed: Set<string>): string {
+	return css
+		.replace(/@import[^;]*;?/gi, () => {
+			removed.add("stylesheet import");
+			return "";
+		})
+		.replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match: string, _quote: string, target: string) => {
+			const normalized = normalizeUrl(target);
+			if (/(?:java|vb)script:/.test(normalized)) {
+				removed.add("javascript: URL");
+				return "none";
+			}
+			if (isExternal(normalized)) {
+				removed.add("external reference");
+				return "none";
+			}
+			return match;
+		});
+}
+
+/**
+ * Whether a (normalized) URL points outside the file. Fragment (#id) and
+ * relative references stay, as do embedded raster data: URIs.
+ */
+function isExternal(url: string): boolean {
+	if (url.startsWith("//")) return true;
+	if (!/^[a-z][a-z0-9+.-]*:/.test(url)) return false;
+	return !/^data:image\/(?:png|jpe?g|gif|webp);/.test(url);
+}
+
+/**
+ * A URL as a browser reads its scheme: entities decoded, whitespace and control
+ * characters ignored ("java&#x09;script:" is still javascript:), lowercased.
+ */
+function normalizeUrl(url: string): string {
+	return [...decodeEntities(url)]
+		.filter((c) => c.charCodeAt(0) > 0x20)
+		.join("")
+		.toLowerCase();
+}
+
+function unquote(value: string): string {
+	const first = value[0];
+	return (first === '"' || first === "'") && value.endsWith(first) ? value.slice(1, -1) : value;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	colon: ":",
+	tab: "\t",
+	newline: "\n",
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match: string, entity: string) => {
+		const lower = entity.toLowerCase();
+		if (lower.startsWith("#x")) return fromCodePoint(parseInt(lower.slice(2), 16));
+		if (lower.startsWith("#")) return fromCodePoint(parseInt(lower.slice(1), 10));
+		return NAMED_ENTITIES[lower] ?? match;
+	});
+}
+
+function fromCodePoint(code: number): string {
+	return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+}
+
+function endOf(source: string, terminator: string, from: number): number {
+	const index = source.indexOf(terminator, from);
+	return index === -1 ? source.length : index + terminator.length;
+}
+
+/** The end of a <!DOCTYPE …> declaration, including any [internal subset]. */
+function doctypeEnd(source: string, start: number): number {
+	let inSubset = false;
+	for (let i = start + 2; i < source.length; i++) {
+		const c = source[i];
+		if (c === "[") inSubset = true;
+		else if (c === "]") inSubset = false;
+		else if (c === ">" && !inSubset) return i + 1;
+	}
+	return source.length;
+}
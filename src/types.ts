@@ -16,6 +16,49 @@ export const VISIBILITY_OPTIONS: Record<PageVisibility, string> = {
 	password: "Password-protected",
 };
 
+/**
+ * What a published note does with a wiki link to a note that has no page of
+ * its own: keep the link text, replace it with a placeholder, drop it, or
+ * refuse to publish.
+ */
+export type UnpublishedLinkMode = "text" | "redact" | "remove" | "block";
+
+export const UNPUBLISHED_LINK_OPTIONS: Record<UnpublishedLinkMode, string> = {
+	text: "Keep the link text",
+	redact: "Replace with a placeholder",
+	remove: "Remove the link",
+	block: "Block publishing",
+};
+
+/** What optimized images are re-encoded as. */
+export type ImageOutputFormat = "original" | "webp" | "jpeg";
+
+export const IMAGE_FORMAT_OPTIONS: Record<ImageOutputFormat, string> = {
+	original: "Keep the original format",
+	webp: "WebP",
+	jpeg: "JPEG",
+};
+
+/**
+ * A find/replace rule applied to every published note after the built-in
+ * processing — for scrubbing internal URLs, handles or hostnames.
+ */
+export interface ReplacementRule {
+	find: string;
+	/** What matches become. In a regex rule, $1 etc. refer to capture groups. */
+	replace: string;
+	/** Treat `find` as a regular expression rather than literal text. */
+	regex: boolean;
+	enabled: boolean;
+	/** Vault folder the rule is limited to, including subfolders. "" applies everywhere. */
+	folder: string;
+}
+
+export const REPLACEMENT_MATCH_OPTIONS: Record<"text" | "regex", string> = {
+	text: "Exact text",
+	regex: "Regular expression",
+};
+
 export interface JotBirdSettings {
 	apiKey: string;
 	stripTags: boolean;
@@ -36,6 +79,47 @@ export interface JotBirdSettings {
 	 * A jotbird_hide_branding note property overrides this per note.
 	 */
 	defaultHideBranding: "" | "show" | "hide";
+	/** Refuse to publish a note when any of its images or attachments can't be found or uploaded. */
+	abortOnImageIssues: boolean;
+	/**
+	 * Comma-separated extensions of the non-image files uploaded with a note.
+	 * None by default: an uploaded file is public, so each type is opted into.
+	 */
+	attachmentTypes: string;
+	/** Largest non-image attachment uploaded, in megabytes. */
+	maxAttachmentSizeMB: number;
+	/** Remove EXIF/GPS and similar metadata from images before upload. */
+	stripImageMetadata: boolean;
+	/** Downsize and re-encode images before upload. SVG and GIF are never touched. */
+	optimizeImages: boolean;
+	/** Longest side, in pixels, of an optimized image. */
+	imageMaxDimension: number;
+	imageFormat: ImageOutputFormat;
+	/** WebP/JPEG encoder quality, 1–100. */
+	imageQuality: number;
+	/**
+	 * Vault-wide handling of links to unpublished notes. "text" preserves the
+	 * original behavior. A jotbird_unpublished_links note property overrides it.
+	 */
+	unpublishedLinks: UnpublishedLinkMode;
+	/** Folders and glob patterns that are never published, one per line (see exclusions.ts). */
+	excludedPaths: string;
+	/** Check the processed note for credentials and personal details before publishing. */
+	scanForSecrets: boolean;
+	/** Scanner findings to ignore, one per line; `*` matches anything. */
+	secretAllowlist: string;
+	/** User-defined find/replace rules, applied in order. */
+	replacementRules: ReplacementRule[];
+	/** Checkbox property that marks a note for "Sync published notes". Empty turns sync off. */
+	publishProperty: string;
+	/** Republish every published note in the background after it's edited. */
+	autoUpdate: boolean;
+	/** Folders (or patterns, as in excludedPaths) whose published notes auto-update, one per line. */
+	autoUpdateFolders: string;
+	/** Badge published notes, and count them per folder, in the file explorer. */
+	explorerBadges: boolean;
+	/** Flag pages that expire within this many days, in the status bar and the explorer. */
+	expiryWarningDays: number;
 }
 
 export const DEFAULT_SETTINGS: JotBirdSettings = {
@@ -46,6 +130,24 @@ export const DEFAULT_SETTINGS: JotBirdSettings = {
 	titleMode: "auto",
 	defaultTheme: "",
 	defaultHideBranding: "",
+	abortOnImageIssues: false,
+	attachmentTypes: "",
+	maxAttachmentSizeMB: 25,
+	stripImageMetadata: true,
+	optimizeImages: false,
+	imageMaxDimension: 2048,
+	imageFormat: "webp",
+	imageQuality: 80,
+	unpublishedLinks: "text",
+	excludedPaths: "",
+	scanForSecrets: true,
+	secretAllowlist: "",
+	replacementRules: [],
+	publishProperty: "jotbird_publish",
+	autoUpdate: false,
+	autoUpdateFolders: "",
+	explorerBadges: true,
+	expiryWarningDays: 7,
 };
 
 /** Mapping of file path -> published document info */
@@ -60,13 +162,43 @@ export interface PublishedNote {
 	url: string;
 	editToken?: string;
 	publishedAt: string;
+	/**
+	 * When the page expires, as an ISO timestamp from the last publish or
+	 * claim; null when it never expires. Absent for notes published before
+	 * this was kept.
+	 */
+	expiresAt?: string | null;
+	/**
+	 * Published while the note had the publish property turned on. "Sync
+	 * published notes" offers to unpublish such a note once the property is
+	 * off; notes published by hand are never touched by sync.
+	 */
+	declared?: boolean;
+	/**
+	 * Hash of the processed body, title and page settings sent by the last
+	 * publish (see contentFingerprint). Absent for notes published before
+	 * fingerprints were kept.
+	 */
+	fingerprint?: string;
 }
 
+/**
+ * Where a note stands against its page: never published, published but changed
+ * in a way that would change the page, or up to date.
+ */
+export type PublishState = "unpublished" | "modified" | "up-to-date";
+
 export interface PluginData {
 	settings: JotBirdSettings;
 	publishedNotes: Record<string, PublishedNote>;
 	deviceFingerprint: string;
 	proRefreshDone?: boolean;
+	/**
+	 * SHA-256 of an image's or attachment's bytes -> the URL it was uploaded
+	 * to, so republishing an unchanged file reuses the URL instead of uploading
+	 * it again.
+	 */
+	imageCache?: Record<string, string>;
 }
 
 /**
@@ -82,6 +214,32 @@ export interface PublishWarning {
 	message: string;
 }
 
+/**
+ * An image, attachment or embedded note the publish couldn't carry over: the
+ * file wasn't found, is excluded from publishing, isn't an allowed type, is
+ * over the size limit, couldn't be converted to a web format, or its upload
+ * failed. `message` is display-ready.
+ */
+export interface AttachmentIssue {
+	/** The reference as written in the note, e.g. "![[diagram.png]]". */
+	reference: string;
+	reason: "not_found" | "excluded" | "unsupported_type" | "too_large" | "conversion_failed" | "upload_failed";
+	message: string;
+}
+
+/**
+ * How publishing or unpublishing one note ended. publishFile returns it, and
+ * bulk actions (a whole folder) list one per note.
+ */
+export interface NoteActionResult {
+	status: "published" | "updated" | "unpublished" | "skipped" | "failed";
+	url?: string;
+	/** Why the note was skipped or failed, or what went wrong around a success. Display-ready. */
+	message?: string;
+	/** The error behind a failure, so a bulk action can tell a rate limit apart. */
+	error?: unknown;
+}
+
 /** Page settings riding along with a publish. Values are forwarded verbatim
  * from frontmatter — the server validates and reports problems in warnings. */
 export interface PagePublishSettings {
@@ -128,7 +286,7 @@ export interface ClaimResponse {
 	ttlDays: number | null;
 }
 
-export interface ImageUploadResponse {
+export interface AttachmentUploadResponse {
 	url: string;
 }
 